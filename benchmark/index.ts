@@ -0,0 +1,135 @@
+/* eslint-disable no-console */
+import { execFileSync } from 'child_process'
+import { readFileSync } from 'fs'
+import { Clustering, GradientDescentVOSLayoutAlgorithm, LeidenAlgorithm, Network } from 'networkanalysis-ts'
+import { Random } from 'networkanalysis-ts/utils'
+
+const NETWORK_FILE = 'app/data/journal_cocitation_network.txt'
+const STORAGE_MODES = ['plain arrays', 'typed arrays']
+const N_MEMORY_REPETITIONS = 100
+const N_CONSTRUCTION_REPETITIONS = 100
+const N_CLUSTERING_REPETITIONS = 20
+const N_LAYOUT_REPETITIONS = 5
+
+interface BenchmarkResult {
+  name: string
+  value: number
+  unit: string
+  quality?: number
+}
+
+/**
+ * Benchmarks the core data structures and algorithms with plain arrays and
+ * with typed arrays, using the journal co-citation network of the
+ * demonstration app.
+ *
+ * The benchmarks measure the memory used by a network, the construction of a
+ * network, the Leiden algorithm, and the gradient descent VOS layout
+ * algorithm. Each storage mode is benchmarked in a separate process, so that
+ * the code optimizations of the JavaScript engine for one storage mode do not
+ * affect the other. Both storage modes use the same random number generator
+ * seed, so they must yield the same quality values.
+ */
+function runBenchmarks (): void {
+  console.log(`Benchmarking on ${NETWORK_FILE} using Node.js ${process.version}.`)
+  console.log('Benchmark                  Storage        Result         Quality')
+  const results = STORAGE_MODES.map(storage => {
+    const output = execFileSync(process.execPath, ['--expose-gc', __filename, storage], { encoding: 'utf8' })
+    const storageResults = JSON.parse(output) as BenchmarkResult[]
+    storageResults.forEach(result => {
+      console.log(`${result.name.padEnd(27)}${storage.padEnd(15)}${`${result.value.toFixed(2)}${result.unit}`.padEnd(15)}${result.quality ?? ''}`)
+    })
+    return storageResults
+  })
+  results[0].forEach((result, i) => {
+    console.log(`${result.name}: ratio of plain arrays to typed arrays equals ${(result.value / results[1][i].value).toFixed(2)}.`)
+  })
+}
+
+function runStorageBenchmarks (useTypedArrays: boolean): BenchmarkResult[] {
+  const edgeList = readFileSync(NETWORK_FILE, 'utf8')
+  const network = readNetwork(edgeList, useTypedArrays)
+  const normalizedNetwork = network.createNormalizedNetworkUsingAssociationStrength()
+  return [
+    runMemoryBenchmark('Network memory', () => readNetwork(edgeList, useTypedArrays)),
+    runTimeBenchmark('Network construction', N_CONSTRUCTION_REPETITIONS, () => readNetwork(edgeList, useTypedArrays).getTotalEdgeWeight()),
+    runTimeBenchmark('Leiden algorithm', N_CLUSTERING_REPETITIONS, () => runLeidenAlgorithm(normalizedNetwork)),
+    runTimeBenchmark('VOS layout algorithm', N_LAYOUT_REPETITIONS, () => runLayoutAlgorithm(normalizedNetwork)),
+  ]
+}
+
+function readNetwork (edgeList: string, useTypedArrays: boolean): Network {
+  const edges = [new Array<number>(0), new Array<number>(0)]
+  const edgeWeights = new Array<number>(0)
+  let nNodes = 0
+  edgeList.split(/\r?\n/).forEach(line => {
+    const columns = line.split('\t')
+    if (columns.length < 3) return
+    const node1 = Number(columns[0]) - 1
+    const node2 = Number(columns[1]) - 1
+    nNodes = Math.max(nNodes, node1 + 1, node2 + 1)
+    if (node1 < node2) {
+      edges[0].push(node1)
+      edges[1].push(node2)
+      edgeWeights.push(Number(columns[2]))
+    }
+  })
+  return new Network({
+    nNodes,
+    setNodeWeightsToTotalEdgeWeights: true,
+    edges,
+    edgeWeights,
+    sortedEdges: false,
+    checkIntegrity: true,
+    useTypedArrays,
+  })
+}
+
+function runLeidenAlgorithm (network: Network): number {
+  const algorithm = new LeidenAlgorithm()
+  algorithm.initializeBasedOnResolutionAndNIterationsAndRandomnessAndRandom(1, 50, 0.01, new Random(0))
+  const clustering = new Clustering({ nNodes: network.getNNodes(), useTypedArrays: network.usesTypedArrays() })
+  algorithm.improveClustering(network, clustering)
+  return algorithm.calcQuality(network, clustering)
+}
+
+function runLayoutAlgorithm (network: Network): number {
+  const algorithm = new GradientDescentVOSLayoutAlgorithm()
+  algorithm.initializeBasedOnAttractionAndRepulsionAndEdgeWeightIncrementAndRandom(2, 1, 0, new Random(0))
+  const layout = algorithm.findLayout(network)
+  return algorithm.calcQuality(network, layout)
+}
+
+function runMemoryBenchmark (name: string, create: () => Network): BenchmarkResult {
+  const networks = new Array<Network>(N_MEMORY_REPETITIONS)
+  const memoryBefore = getUsedMemory()
+  for (let i = 0; i < N_MEMORY_REPETITIONS; i++) {
+    networks[i] = create()
+  }
+  const memory = getUsedMemory() - memoryBefore
+  return { name, value: memory / networks.length / 1024, unit: 'kB' }
+}
+
+function runTimeBenchmark (name: string, nRepetitions: number, run: () => number): BenchmarkResult {
+  // Run once without measuring the time to let the JavaScript engine optimize the code.
+  run()
+  let quality = 0
+  const startTime = performance.now()
+  for (let i = 0; i < nRepetitions; i++) {
+    quality = run()
+  }
+  return { name, value: (performance.now() - startTime) / nRepetitions, unit: 'ms', quality }
+}
+
+function getUsedMemory (): number {
+  if (global.gc) global.gc()
+  const memoryUsage = process.memoryUsage()
+  return memoryUsage.heapUsed + memoryUsage.arrayBuffers
+}
+
+const storage = process.argv[2]
+if (storage === undefined) {
+  runBenchmarks()
+} else {
+  console.log(JSON.stringify(runStorageBenchmarks(storage === STORAGE_MODES[1])))
+}
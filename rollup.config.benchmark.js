@@ -0,0 +1,23 @@
+import typescript from 'rollup-plugin-typescript2'
+import typescriptCompiler from 'typescript'
+import commonjs from '@rollup/plugin-commonjs'
+import resolve from '@rollup/plugin-node-resolve'
+
+const plugins = [
+  typescript({
+    tsconfig: './tsconfig.app.json',
+    typescript: typescriptCompiler,
+  }),
+  resolve(),
+  commonjs({ include: 'node_modules/**', extensions: ['.js', '.ts'] }),
+]
+
+module.exports = {
+  input: 'benchmark/index.ts',
+  external: ['child_process', 'fs'],
+  output: {
+    file: 'benchmark/dist/index.js',
+    format: 'cjs',
+  },
+  plugins,
+}
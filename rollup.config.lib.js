@@ -24,7 +24,7 @@ const plugins = [
 ]
 
 module.exports = {
-  input: ['src/index.ts', 'src/run/index.ts', 'src/utils/index.ts'],
+  input: ['src/index.ts', 'src/io/index.ts', 'src/run/index.ts', 'src/utils/index.ts'],
   external: regexesOfPackages,
   output: [
     {
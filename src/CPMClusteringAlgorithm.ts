@@ -1,7 +1,8 @@
 import Clustering, { ClusteringParametersWithNNodes } from './clustering'
+import DirectedNetwork from './directedNetwork'
 import Network from './network'
 import QualityClusteringAlgorithm from './qualityClusteringAlgorithm'
-import { calcMaximum } from './utils/arrays'
+import { calcMaximum, createDoubleArray } from './utils/arrays'
 
 /**
  * Abstract base class for clustering algorithms that use the CPM quality
@@ -73,6 +74,15 @@ export default abstract class CPMClusteringAlgorithm implements QualityClusterin
    * the total weight of the edges between node `i` and its neighbors and by
    * rescaling the resolution parameter by `2 * m`.
    *
+   * For a directed network, `a[i][j]` is the weight of the arc from node `i`
+   * to node `j`, `n[i] * n[j]` is replaced by `n_out[i] * n_in[j]`, where
+   * `n_out[i]` and `n_in[i]` are the out and in weights of node `i`, and
+   * `2 * m` is replaced by the total arc weight. Directed modularity
+   * (Leicht & Newman, 2008) can be expressed in terms of directed CPM by
+   * setting `n_out[i]` and `n_in[i]` equal to the total weights of the arcs
+   * from and to node `i` and by rescaling the resolution parameter by the
+   * total arc weight.
+   *
    * @param network    Network
    * @param clustering Clustering
    *
@@ -91,12 +101,15 @@ export default abstract class CPMClusteringAlgorithm implements QualityClusterin
     }
     quality += network.totalEdgeWeightSelfLinks
 
-    const clusterWeights = new Array<number>(clustering.nClusters).fill(0)
+    const inNodeWeights = (network instanceof DirectedNetwork) ? network.inNodeWeights : undefined
+    const clusterWeights = createDoubleArray(clustering.nClusters, network.usesTypedArrays())
+    const inClusterWeights = createDoubleArray(inNodeWeights ? clustering.nClusters : 0, network.usesTypedArrays())
     for (let i = 0; i < network.nNodes; i++) {
       clusterWeights[clustering.clusters[i]] += network.nodeWeights[i]
+      if (inNodeWeights) inClusterWeights[clustering.clusters[i]] += inNodeWeights[i]
     }
     for (let i = 0; i < clustering.nClusters; i++) {
-      quality -= clusterWeights[i] * clusterWeights[i] * this.resolution
+      quality -= clusterWeights[i] * (inNodeWeights ? inClusterWeights[i] : clusterWeights[i]) * this.resolution
     }
 
     quality /= 2 * network.getTotalEdgeWeight() + network.totalEdgeWeightSelfLinks
@@ -117,8 +130,8 @@ export default abstract class CPMClusteringAlgorithm implements QualityClusterin
    *         -1 if the cluster could not be removed
    */
   public removeCluster (network: Network, clustering: Clustering, cluster: number): number {
-    const clusterWeights = new Array<number>(clustering.nClusters).fill(0)
-    const totalEdgeWeightPerCluster = new Array<number>(clustering.nClusters).fill(0)
+    const clusterWeights = createDoubleArray(clustering.nClusters, network.usesTypedArrays())
+    const totalEdgeWeightPerCluster = createDoubleArray(clustering.nClusters, network.usesTypedArrays())
     for (let i = 0; i < network.nNodes; i++) {
       clusterWeights[clustering.clusters[i]] += network.nodeWeights[i]
       if (clustering.clusters[i] === cluster) {
@@ -166,7 +179,7 @@ export default abstract class CPMClusteringAlgorithm implements QualityClusterin
    */
   public removeSmallClustersBasedOnNNodes (network: Network, clustering: Clustering, minNNodesPerCluster: number): boolean {
     const reducedNetwork = network.createReducedNetwork(clustering)
-    const clusteringReducedNetwork = new Clustering({ nNodes: reducedNetwork.nNodes } as ClusteringParametersWithNNodes)
+    const clusteringReducedNetwork = new Clustering({ nNodes: reducedNetwork.nNodes, useTypedArrays: reducedNetwork.usesTypedArrays() } as ClusteringParametersWithNNodes)
 
     const nNodesPerCluster = clustering.getNNodesPerCluster()
 
@@ -210,7 +223,7 @@ export default abstract class CPMClusteringAlgorithm implements QualityClusterin
    */
   public removeSmallClustersBasedOnWeight (network: Network, clustering: Clustering, minClusterWeight: number): boolean {
     const reducedNetwork = network.createReducedNetwork(clustering)
-    const clusteringReducedNetwork = new Clustering({ nNodes: reducedNetwork.nNodes } as ClusteringParametersWithNNodes)
+    const clusteringReducedNetwork = new Clustering({ nNodes: reducedNetwork.nNodes, useTypedArrays: reducedNetwork.usesTypedArrays() } as ClusteringParametersWithNNodes)
 
     const clusterWeights = reducedNetwork.nodeWeights.slice()
 
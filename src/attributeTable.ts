@@ -0,0 +1,378 @@
+import Clustering from './clustering'
+
+/**
+ * Types of attributes.
+ */
+export enum AttributeType {
+  /**
+   * Free text, for instance a label.
+   */
+  Label = 'label',
+
+  /**
+   * Number.
+   */
+  Numeric = 'numeric',
+
+  /**
+   * Category out of a limited number of categories.
+   */
+  Categorical = 'categorical',
+}
+
+/**
+ * Methods for aggregating the values of an attribute when rows are merged.
+ */
+export enum AggregationMethod {
+  /**
+   * Value of the first row. Supported for all types of attributes.
+   */
+  First = 'first',
+
+  /**
+   * Sum of the values. Supported for numeric attributes.
+   */
+  Sum = 'sum',
+
+  /**
+   * Mean of the values. Supported for numeric attributes.
+   */
+  Mean = 'mean',
+
+  /**
+   * Minimum of the values. Supported for numeric attributes.
+   */
+  Min = 'min',
+
+  /**
+   * Maximum of the values. Supported for numeric attributes.
+   */
+  Max = 'max',
+
+  /**
+   * Most frequent value. In case of ties, the value that occurs first is
+   * used. Supported for all types of attributes.
+   */
+  Mode = 'mode',
+
+  /**
+   * Distinct values joined by a separator. Supported for label and
+   * categorical attributes.
+   */
+  Join = 'join',
+}
+
+/**
+ * Interface for a column in an attribute table.
+ */
+export interface AttributeColumn {
+  /**
+   * Name of the attribute.
+   */
+  name: string
+
+  /**
+   * Type of the attribute.
+   */
+  type: AttributeType
+
+  /**
+   * Method for aggregating values when rows are merged.
+   */
+  aggregationMethod: AggregationMethod
+
+  /**
+   * Value of each row.
+   */
+  values: (string | number)[]
+}
+
+/**
+ * Attribute table.
+ *
+ * An attribute table stores attributes of the nodes or the edges of a
+ * network, one row per node or per edge. Each column contains a label,
+ * numeric, or categorical attribute and has a method for aggregating its
+ * values when rows are merged, for instance when a reduced network is created.
+ *
+ * An attribute table that is attached to a network is carried through the
+ * operations that create a new network from the network. Networks with the
+ * same nodes or edges share the attribute table. Attribute tables attached to
+ * a network should therefore not be modified.
+ */
+export default class AttributeTable {
+  /**
+   * Separator used by {@link AggregationMethod.Join}.
+   */
+  public static readonly JOIN_SEPARATOR: string = '; '
+
+  /**
+   * Number of rows.
+   */
+  protected nRows: number
+
+  /**
+   * Columns.
+   */
+  protected columns = new Map<string, AttributeColumn>()
+
+  /**
+   * Constructs an attribute table without columns.
+   *
+   * @param nRows Number of rows
+   */
+  public constructor (nRows: number) {
+    this.nRows = nRows
+  }
+
+  /**
+   * Returns the number of rows.
+   *
+   * @return Number of rows
+   */
+  public getNRows (): number {
+    return this.nRows
+  }
+
+  /**
+   * Returns the names of the columns, in the order in which they have been
+   * added.
+   *
+   * @return Names of the columns
+   */
+  public getColumnNames (): string[] {
+    return [...this.columns.keys()]
+  }
+
+  /**
+   * Indicates whether the table has a column.
+   *
+   * @param name Name of the attribute
+   *
+   * @return Boolean indicating whether the table has the column
+   */
+  public hasColumn (name: string): boolean {
+    return this.columns.has(name)
+  }
+
+  /**
+   * Returns a column.
+   *
+   * @param name Name of the attribute
+   *
+   * @return Column
+   *
+   * @throws The table does not have the column.
+   */
+  public getColumn (name: string): AttributeColumn {
+    const column = this.getColumnHelper(name)
+    return { ...column, values: column.values.slice() }
+  }
+
+  /**
+   * Returns the value of each row for an attribute.
+   *
+   * @param name Name of the attribute
+   *
+   * @return Value of each row
+   *
+   * @throws The table does not have the column.
+   */
+  public getValues (name: string): (string | number)[] {
+    return this.getColumnHelper(name).values.slice()
+  }
+
+  /**
+   * Returns the value of a row for an attribute.
+   *
+   * @param name Name of the attribute
+   * @param row  Row
+   *
+   * @return Value
+   *
+   * @throws The table does not have the column.
+   */
+  public getValue (name: string, row: number): string | number {
+    return this.getColumnHelper(name).values[row]
+  }
+
+  /**
+   * Sets a label column. An existing column with the same name is replaced.
+   *
+   * @param name              Name of the attribute
+   * @param values            Value of each row
+   * @param aggregationMethod Aggregation method
+   *
+   * @return This table
+   *
+   * @throws The number of values is incorrect or the aggregation method is
+   *         not supported for labels.
+   */
+  public setLabelColumn (name: string, values: string[], aggregationMethod = AggregationMethod.Join): this {
+    return this.setColumn(name, AttributeType.Label, values, aggregationMethod)
+  }
+
+  /**
+   * Sets a numeric column. An existing column with the same name is replaced.
+   *
+   * @param name              Name of the attribute
+   * @param values            Value of each row
+   * @param aggregationMethod Aggregation method
+   *
+   * @return This table
+   *
+   * @throws The number of values is incorrect or the aggregation method is
+   *         not supported for numeric attributes.
+   */
+  public setNumericColumn (name: string, values: number[], aggregationMethod = AggregationMethod.Sum): this {
+    return this.setColumn(name, AttributeType.Numeric, values, aggregationMethod)
+  }
+
+  /**
+   * Sets a categorical column. An existing column with the same name is
+   * replaced.
+   *
+   * @param name              Name of the attribute
+   * @param values            Value of each row
+   * @param aggregationMethod Aggregation method
+   *
+   * @return This table
+   *
+   * @throws The number of values is incorrect or the aggregation method is
+   *         not supported for categorical attributes.
+   */
+  public setCategoricalColumn (name: string, values: string[], aggregationMethod = AggregationMethod.Mode): this {
+    return this.setColumn(name, AttributeType.Categorical, values, aggregationMethod)
+  }
+
+  /**
+   * Removes a column.
+   *
+   * @param name Name of the attribute
+   *
+   * @return This table
+   */
+  public removeColumn (name: string): this {
+    this.columns.delete(name)
+    return this
+  }
+
+  /**
+   * Creates a table consisting of selected rows.
+   *
+   * @param rows Rows to be selected, in the order in which they are to appear
+   *             in the new table
+   *
+   * @return Table consisting of the selected rows
+   */
+  public selectRows (rows: ArrayLike<number>): AttributeTable {
+    const table = new AttributeTable(rows.length)
+    this.columns.forEach(column => {
+      const values = new Array<string | number>(rows.length)
+      for (let i = 0; i < rows.length; i++) {
+        values[i] = column.values[rows[i]]
+      }
+      table.columns.set(column.name, { ...column, values })
+    })
+    return table
+  }
+
+  /**
+   * Creates a table in which groups of rows have been merged into a single
+   * row. The values of each column are aggregated using the aggregation
+   * method of the column.
+   *
+   * @param rowsPerGroup Rows in each group
+   *
+   * @return Table with one row per group
+   */
+  public aggregateRows (rowsPerGroup: ArrayLike<number>[]): AttributeTable {
+    const table = new AttributeTable(rowsPerGroup.length)
+    this.columns.forEach(column => {
+      const values = new Array<string | number>(rowsPerGroup.length)
+      for (let i = 0; i < rowsPerGroup.length; i++) {
+        const groupValues = new Array<string | number>(rowsPerGroup[i].length)
+        for (let j = 0; j < rowsPerGroup[i].length; j++) {
+          groupValues[j] = column.values[rowsPerGroup[i][j]]
+        }
+        values[i] = aggregateValues(groupValues, column.type, column.aggregationMethod)
+      }
+      table.columns.set(column.name, { ...column, values })
+    })
+    return table
+  }
+
+  /**
+   * Creates a table with one row per cluster in a clustering. The rows of the
+   * nodes in a cluster are merged into a single row.
+   *
+   * @param clustering Clustering
+   *
+   * @return Table with one row per cluster
+   */
+  public aggregateRowsBasedOnClustering (clustering: Clustering): AttributeTable {
+    return this.aggregateRows(clustering.getNodesPerCluster())
+  }
+
+  /**
+   * Clones the table.
+   *
+   * @return Cloned table
+   */
+  public clone (): AttributeTable {
+    return this.selectRows([...Array(this.nRows).keys()])
+  }
+
+  private setColumn (name: string, type: AttributeType, values: (string | number)[], aggregationMethod: AggregationMethod): this {
+    if (values.length !== this.nRows) {
+      throw new Error(`Number of values of attribute ${name} must be equal to ${this.nRows}.`)
+    }
+    if (!isSupportedAggregationMethod(type, aggregationMethod)) {
+      throw new Error(`Aggregation method ${aggregationMethod} is not supported for ${type} attributes.`)
+    }
+    this.columns.set(name, { name, type, aggregationMethod, values: values.slice() })
+    return this
+  }
+
+  private getColumnHelper (name: string): AttributeColumn {
+    const column = this.columns.get(name)
+    if (column === undefined) {
+      throw new Error(`Attribute table does not have a column ${name}.`)
+    }
+    return column
+  }
+}
+
+function isSupportedAggregationMethod (type: AttributeType, aggregationMethod: AggregationMethod): boolean {
+  if (aggregationMethod === AggregationMethod.First || aggregationMethod === AggregationMethod.Mode) return true
+  if (aggregationMethod === AggregationMethod.Join) return type !== AttributeType.Numeric
+  return type === AttributeType.Numeric
+}
+
+function aggregateValues (values: (string | number)[], type: AttributeType, aggregationMethod: AggregationMethod): string | number {
+  if (values.length === 0) {
+    if (type !== AttributeType.Numeric) return ''
+    return aggregationMethod === AggregationMethod.Sum ? 0 : NaN
+  }
+  const numericValues = values as number[]
+  if (aggregationMethod === AggregationMethod.Sum) {
+    return numericValues.reduce((sum, value) => sum + value, 0)
+  } else if (aggregationMethod === AggregationMethod.Mean) {
+    return numericValues.reduce((sum, value) => sum + value, 0) / values.length
+  } else if (aggregationMethod === AggregationMethod.Min) {
+    return numericValues.reduce((min, value) => Math.min(min, value))
+  } else if (aggregationMethod === AggregationMethod.Max) {
+    return numericValues.reduce((max, value) => Math.max(max, value))
+  } else if (aggregationMethod === AggregationMethod.Mode) {
+    const counts = new Map<string | number, number>()
+    values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1))
+    let mode = values[0]
+    counts.forEach((count, value) => {
+      if (count > (counts.get(mode) as number)) mode = value
+    })
+    return mode
+  } else if (aggregationMethod === AggregationMethod.Join) {
+    return [...new Set(values)].join(AttributeTable.JOIN_SEPARATOR)
+  }
+  return values[0]
+}
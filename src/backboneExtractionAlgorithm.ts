@@ -0,0 +1,173 @@
+import Network from './network'
+import { binarySearch } from './utils/arrays'
+
+/**
+ * Interface for the result of extracting the backbone of a network.
+ */
+export interface BackboneExtractionResult {
+  /**
+   * Backbone network, consisting of the edges that are significant.
+   */
+  network: Network
+
+  /**
+   * Score of each edge in the original network, in both directions, in the
+   * order of the edges returned by {@link Network.getEdges}.
+   */
+  edgeScores: number[]
+}
+
+/**
+ * Algorithm for extracting the backbone of a network.
+ *
+ * Unlike {@link Network.createPrunedNetwork}, which retains the edges with
+ * the highest weights in the entire network, backbone extraction retains the
+ * edges whose weights are significantly higher than expected given the
+ * weights of the nodes they connect. Weak edges that are significant in
+ * sparse parts of a network are therefore retained. Two methods are
+ * supported:
+ *
+ * - The disparity filter of Serrano, Boguñá, and Vespignani (2009). For an
+ *   edge between nodes `i` and `j`, the score is
+ *   `min((1 - a[i][j] / s[i])^(k[i] - 1), (1 - a[i][j] / s[j])^(k[j] - 1))`,
+ *   where `a[i][j]` is the weight of the edge, `s[i]` is the total edge weight
+ *   of node `i`, and `k[i]` is the number of neighbors of node `i`. Edges of
+ *   nodes with a single neighbor have a score of 1 from the perspective of
+ *   these nodes. The score is a p-value, and edges with a score below the
+ *   significance level are retained.
+ * - The noise-corrected backbone of Coscia and Neffke (2017). The score of an
+ *   edge is the transformed lift of the edge, which measures how much the
+ *   weight of the edge exceeds its expected weight, divided by the standard
+ *   deviation of the transformed lift, which is obtained using a binomial
+ *   model with a Bayesian prior. Edges with a score above a threshold, for
+ *   instance 1.64 for a one-tailed test at a significance level of 0.05, are
+ *   retained.
+ *
+ * The backbone has the same nodes and node weights as the network. Self
+ * links are not stored in the arrays of a network and are ignored. Directed
+ * networks are treated as undirected networks.
+ */
+export default class BackboneExtractionAlgorithm {
+  /**
+   * Default significance level of the disparity filter.
+   */
+  public static readonly DEFAULT_SIGNIFICANCE_LEVEL: number = 0.05
+
+  /**
+   * Default score threshold of the noise-corrected backbone.
+   */
+  public static readonly DEFAULT_SCORE_THRESHOLD: number = 1.64
+
+  /**
+   * Constructs a backbone extraction algorithm.
+   */
+  // public constructor () {}
+
+  /**
+   * Calculates the disparity filter score of each edge.
+   *
+   * @param network Network
+   *
+   * @return Score of each edge, in both directions
+   */
+  public calcDisparityFilterScores (network: Network): number[] {
+    const nNodes = network.getNNodes()
+    const strengths = network.getTotalEdgeWeightPerNode()
+    const scores = new Array<number>(network.getNEdges() * 2)
+    for (let i = 0; i < nNodes; i++) {
+      const nNeighbors = network.firstNeighborIndices[i + 1] - network.firstNeighborIndices[i]
+      for (let j = network.firstNeighborIndices[i]; j < network.firstNeighborIndices[i + 1]; j++) {
+        scores[j] = (nNeighbors > 1) ? Math.pow(1 - network.edgeWeights[j] / strengths[i], nNeighbors - 1) : 1
+      }
+    }
+    return takeMinimumOverDirections(network, scores)
+  }
+
+  /**
+   * Calculates the noise-corrected backbone score of each edge.
+   *
+   * @param network Network
+   *
+   * @return Score of each edge, in both directions
+   */
+  public calcNoiseCorrectedScores (network: Network): number[] {
+    const nNodes = network.getNNodes()
+    const strengths = network.getTotalEdgeWeightPerNode()
+    const n = 2 * network.getTotalEdgeWeight()
+    const scores = new Array<number>(network.getNEdges() * 2)
+    for (let i = 0; i < nNodes; i++) {
+      for (let j = network.firstNeighborIndices[i]; j < network.firstNeighborIndices[i + 1]; j++) {
+        const nij = network.edgeWeights[j]
+        const ni = strengths[i]
+        const nj = strengths[network.neighbors[j]]
+
+        // Transformed lift.
+        const kappa = n / (ni * nj)
+        const lift = (kappa * nij - 1) / (kappa * nij + 1)
+
+        // Posterior of the probability of the edge, based on a beta prior.
+        const meanPriorProbability = ni * nj / (n * n)
+        const variancePriorProbability = ni * nj * (n - ni) * (n - nj) / (n * n * n * n * (n - 1))
+        const alphaPrior = meanPriorProbability * meanPriorProbability / variancePriorProbability * (1 - meanPriorProbability) - meanPriorProbability
+        const betaPrior = meanPriorProbability / variancePriorProbability * (1 - meanPriorProbability * meanPriorProbability) - (1 - meanPriorProbability)
+        const alphaPosterior = alphaPrior + nij
+        const betaPosterior = n - nij + betaPrior
+        const expectedProbability = alphaPosterior / (alphaPosterior + betaPosterior)
+
+        // Variance of the transformed lift using the delta method.
+        const varianceWeight = expectedProbability * (1 - expectedProbability) * n
+        const d = 1 / (ni * nj) - n * (ni + nj) / ((ni * nj) * (ni * nj))
+        const derivative = 2 * (kappa + nij * d) / ((kappa * nij + 1) * (kappa * nij + 1))
+        const standardDeviation = Math.sqrt(varianceWeight * derivative * derivative)
+
+        scores[j] = lift / standardDeviation
+      }
+    }
+    return scores
+  }
+
+  /**
+   * Extracts the backbone of a network using the disparity filter.
+   *
+   * @param network           Network
+   * @param significanceLevel Significance level
+   *
+   * @return Backbone network and score of each edge
+   */
+  public extractBackboneUsingDisparityFilter (network: Network, significanceLevel = BackboneExtractionAlgorithm.DEFAULT_SIGNIFICANCE_LEVEL): BackboneExtractionResult {
+    const edgeScores = this.calcDisparityFilterScores(network)
+    return {
+      network: network.createSubnetworkForEdges(edgeScores.map(score => score < significanceLevel)),
+      edgeScores,
+    }
+  }
+
+  /**
+   * Extracts the noise-corrected backbone of a network.
+   *
+   * @param network        Network
+   * @param scoreThreshold Score threshold
+   *
+   * @return Backbone network and score of each edge
+   */
+  public extractBackboneUsingNoiseCorrection (network: Network, scoreThreshold = BackboneExtractionAlgorithm.DEFAULT_SCORE_THRESHOLD): BackboneExtractionResult {
+    const edgeScores = this.calcNoiseCorrectedScores(network)
+    return {
+      network: network.createSubnetworkForEdges(edgeScores.map(score => score > scoreThreshold)),
+      edgeScores,
+    }
+  }
+}
+
+function takeMinimumOverDirections (network: Network, scores: number[]): number[] {
+  for (let i = 0; i < network.getNNodes(); i++) {
+    for (let j = network.firstNeighborIndices[i]; j < network.firstNeighborIndices[i + 1]; j++) {
+      const k = network.neighbors[j]
+      if (k > i) {
+        const l = binarySearch(network.neighbors, network.firstNeighborIndices[k], network.firstNeighborIndices[k + 1], i)
+        scores[j] = scores[l] = Math.min(scores[j], scores[l])
+      }
+    }
+  }
+  return scores
+}
@@ -0,0 +1,461 @@
+import Clustering from './clustering'
+import DirectedNetwork from './directedNetwork'
+import Network from './network'
+
+/**
+ * Node sets of a bipartite network.
+ */
+export enum BipartiteNodeSet {
+  /**
+   * Left nodes.
+   */
+  Left = 'left',
+
+  /**
+   * Right nodes.
+   */
+  Right = 'right',
+}
+
+/**
+ * Interface for specifying parameters when constructing a bipartite network.
+ */
+export interface BipartiteNetworkConstructorParameters {
+  /**
+   * Number of left nodes.
+   */
+  nLeftNodes: number
+
+  /**
+   * Number of right nodes.
+   */
+  nRightNodes: number
+
+  /**
+   * Edge list. Edge `i` connects left node `edges[0][i]` and right node
+   * `edges[1][i]`.
+   */
+  edges: number[][]
+
+  /**
+   * Edge weights. By default, each edge has a weight of 1.
+   */
+  edgeWeights?: number[]
+}
+
+/**
+ * Interface for the clusterings of the left and right nodes of a bipartite
+ * network.
+ */
+export interface BipartiteClustering {
+  /**
+   * Clustering of the left nodes.
+   */
+  leftClustering: Clustering
+
+  /**
+   * Clustering of the right nodes.
+   */
+  rightClustering: Clustering
+}
+
+/**
+ * Bipartite network.
+ *
+ * A bipartite network has two disjoint sets of nodes, the left nodes and the
+ * right nodes. Each edge connects a left node and a right node and has a
+ * weight, for instance representing the incidence of an author in a
+ * publication. The edges are stored twice in a sparse compressed format,
+ * once grouped by left node and once grouped by right node.
+ *
+ * A bipartite network can be projected onto its left or right nodes,
+ * yielding a {@link Network} in which two nodes are connected if they have
+ * one or more neighbors in common. Let `w[i][k]` be the weight of the edge
+ * between nodes `i` and `k`, and let `n[k]` be the number of neighbors of
+ * node `k`. The weight of the edge between nodes `i` and `j` in the
+ * projection is
+ *
+ * - 1 in a simple projection,
+ * - the sum of `w[i][k] * w[j][k]` in a weighted projection,
+ * - the sum of `w[i][k] * w[j][k] / (n[k] - 1)` in a Newman collaboration
+ *   projection (Newman, 2001), and
+ * - the sum of `w[i][k] * w[j][k] / n[k]` in a hyperbolic projection,
+ *
+ * where the sums are taken over the common neighbors `k` of nodes `i` and
+ * `j`. The weight of a node in a projection equals its total edge weight in
+ * the bipartite network.
+ *
+ * A bipartite network can be clustered using Barber's bipartite modularity
+ * (Barber, 2007) by applying the {@link LeidenAlgorithm} or the
+ * {@link LouvainAlgorithm} to the network created by
+ * {@link createNetworkForBipartiteModularity}.
+ *
+ * Bipartite network objects are immutable.
+ */
+export default class BipartiteNetwork {
+  /**
+   * Number of left nodes.
+   */
+  public nLeftNodes: number
+
+  /**
+   * Number of right nodes.
+   */
+  public nRightNodes: number
+
+  /**
+   * Index of the first right neighbor of each left node in the
+   * `rightNeighbors` array.
+   */
+  public firstRightNeighborIndices: number[]
+
+  /**
+   * Right neighbors of each left node.
+   */
+  public rightNeighbors: number[]
+
+  /**
+   * Weights of the edges to the right neighbors of each left node.
+   */
+  public rightEdgeWeights: number[]
+
+  /**
+   * Index of the first left neighbor of each right node in the
+   * `leftNeighbors` array.
+   */
+  public firstLeftNeighborIndices: number[]
+
+  /**
+   * Left neighbors of each right node.
+   */
+  public leftNeighbors: number[]
+
+  /**
+   * Weights of the edges to the left neighbors of each right node.
+   */
+  public leftEdgeWeights: number[]
+
+  /**
+   * Constructs a bipartite network based on a list of edges.
+   *
+   * Multiple edges between the same two nodes are merged into a single edge.
+   * The weight of this edge equals the sum of the weights of the merged
+   * edges.
+   *
+   * @param parameters Bipartite network constructor parameters
+   *
+   * @throws The edge list is not valid.
+   */
+  public constructor (parameters: BipartiteNetworkConstructorParameters) {
+    const { nLeftNodes, nRightNodes, edges, edgeWeights } = parameters
+    const nEdges = edges[0].length
+    if (edges[1].length !== nEdges || (edgeWeights !== undefined && edgeWeights.length !== nEdges)) {
+      throw new Error('Edge list and edge weights must have the same length.')
+    }
+    for (let i = 0; i < nEdges; i++) {
+      if (!(edges[0][i] >= 0 && edges[0][i] < nLeftNodes && edges[1][i] >= 0 && edges[1][i] < nRightNodes)) {
+        throw new Error('Edges must connect a left node and a right node.')
+      }
+    }
+
+    this.nLeftNodes = nLeftNodes
+    this.nRightNodes = nRightNodes
+
+    const indices = [...Array(nEdges).keys()].sort((i, j) => (edges[0][i] - edges[0][j]) || (edges[1][i] - edges[1][j]))
+    this.firstRightNeighborIndices = new Array<number>(nLeftNodes + 1).fill(0)
+    this.rightNeighbors = []
+    this.rightEdgeWeights = []
+    for (let i = 0; i < nEdges; i++) {
+      const j = indices[i]
+      const weight = (edgeWeights !== undefined) ? edgeWeights[j] : 1
+      if (i > 0 && edges[0][j] === edges[0][indices[i - 1]] && edges[1][j] === edges[1][indices[i - 1]]) {
+        this.rightEdgeWeights[this.rightEdgeWeights.length - 1] += weight
+      } else {
+        this.firstRightNeighborIndices[edges[0][j] + 1]++
+        this.rightNeighbors.push(edges[1][j])
+        this.rightEdgeWeights.push(weight)
+      }
+    }
+    for (let i = 0; i < nLeftNodes; i++) {
+      this.firstRightNeighborIndices[i + 1] += this.firstRightNeighborIndices[i]
+    }
+
+    this.firstLeftNeighborIndices = new Array<number>(nRightNodes + 1).fill(0)
+    for (let i = 0; i < this.rightNeighbors.length; i++) {
+      this.firstLeftNeighborIndices[this.rightNeighbors[i] + 1]++
+    }
+    for (let i = 0; i < nRightNodes; i++) {
+      this.firstLeftNeighborIndices[i + 1] += this.firstLeftNeighborIndices[i]
+    }
+    this.leftNeighbors = new Array<number>(this.rightNeighbors.length)
+    this.leftEdgeWeights = new Array<number>(this.rightNeighbors.length)
+    const nextIndices = this.firstLeftNeighborIndices.slice(0, nRightNodes)
+    for (let i = 0; i < nLeftNodes; i++) {
+      for (let j = this.firstRightNeighborIndices[i]; j < this.firstRightNeighborIndices[i + 1]; j++) {
+        const k = nextIndices[this.rightNeighbors[j]]
+        this.leftNeighbors[k] = i
+        this.leftEdgeWeights[k] = this.rightEdgeWeights[j]
+        nextIndices[this.rightNeighbors[j]]++
+      }
+    }
+  }
+
+  /**
+   * Returns the number of left nodes.
+   *
+   * @return Number of left nodes
+   */
+  public getNLeftNodes (): number {
+    return this.nLeftNodes
+  }
+
+  /**
+   * Returns the number of right nodes.
+   *
+   * @return Number of right nodes
+   */
+  public getNRightNodes (): number {
+    return this.nRightNodes
+  }
+
+  /**
+   * Returns the number of edges.
+   *
+   * @return Number of edges
+   */
+  public getNEdges (): number {
+    return this.rightNeighbors.length
+  }
+
+  /**
+   * Returns the list of edges.
+   *
+   * The list of edges is returned in a two-dimensional array `edges`. Edge
+   * `i` connects left node `edges[0][i]` and right node `edges[1][i]`.
+   *
+   * @return List of edges
+   */
+  public getEdges (): number[][] {
+    const edges = [new Array<number>(this.rightNeighbors.length), this.rightNeighbors.slice()]
+    for (let i = 0; i < this.nLeftNodes; i++) {
+      edges[0].fill(i, this.firstRightNeighborIndices[i], this.firstRightNeighborIndices[i + 1])
+    }
+    return edges
+  }
+
+  /**
+   * Returns the edge weights, in the order of the edges returned by
+   * {@link getEdges}.
+   *
+   * @return Edge weights
+   */
+  public getEdgeWeights (): number[] {
+    return this.rightEdgeWeights.slice()
+  }
+
+  /**
+   * Returns the total edge weight.
+   *
+   * @return Total edge weight
+   */
+  public getTotalEdgeWeight (): number {
+    return this.rightEdgeWeights.reduce((sum, weight) => sum + weight, 0)
+  }
+
+  /**
+   * Returns the number of neighbors of each node in a node set.
+   *
+   * @param nodeSet Node set
+   *
+   * @return Number of neighbors of each node
+   */
+  public getNNeighborsPerNode (nodeSet: BipartiteNodeSet): number[] {
+    const firstNeighborIndices = (nodeSet === BipartiteNodeSet.Left) ? this.firstRightNeighborIndices : this.firstLeftNeighborIndices
+    const nNeighborsPerNode = new Array<number>(firstNeighborIndices.length - 1)
+    for (let i = 0; i < nNeighborsPerNode.length; i++) {
+      nNeighborsPerNode[i] = firstNeighborIndices[i + 1] - firstNeighborIndices[i]
+    }
+    return nNeighborsPerNode
+  }
+
+  /**
+   * Returns the total edge weight of each node in a node set.
+   *
+   * @param nodeSet Node set
+   *
+   * @return Total edge weight of each node
+   */
+  public getTotalEdgeWeightPerNode (nodeSet: BipartiteNodeSet): number[] {
+    const firstNeighborIndices = (nodeSet === BipartiteNodeSet.Left) ? this.firstRightNeighborIndices : this.firstLeftNeighborIndices
+    const edgeWeights = (nodeSet === BipartiteNodeSet.Left) ? this.rightEdgeWeights : this.leftEdgeWeights
+    const totalEdgeWeightPerNode = new Array<number>(firstNeighborIndices.length - 1).fill(0)
+    for (let i = 0; i < totalEdgeWeightPerNode.length; i++) {
+      for (let j = firstNeighborIndices[i]; j < firstNeighborIndices[i + 1]; j++) {
+        totalEdgeWeightPerNode[i] += edgeWeights[j]
+      }
+    }
+    return totalEdgeWeightPerNode
+  }
+
+  /**
+   * Creates a simple projection of the bipartite network onto a node set.
+   *
+   * @param nodeSet Node set
+   *
+   * @return Projection
+   */
+  public createSimpleProjection (nodeSet: BipartiteNodeSet): Network {
+    return this.createProjection(nodeSet, () => 1, true)
+  }
+
+  /**
+   * Creates a weighted projection of the bipartite network onto a node set.
+   *
+   * @param nodeSet Node set
+   *
+   * @return Projection
+   */
+  public createWeightedProjection (nodeSet: BipartiteNodeSet): Network {
+    return this.createProjection(nodeSet, (weight1, weight2) => weight1 * weight2, false)
+  }
+
+  /**
+   * Creates a Newman collaboration projection of the bipartite network onto
+   * a node set.
+   *
+   * @param nodeSet Node set
+   *
+   * @return Projection
+   */
+  public createNewmanCollaborationProjection (nodeSet: BipartiteNodeSet): Network {
+    return this.createProjection(nodeSet, (weight1, weight2, nNeighbors) => weight1 * weight2 / (nNeighbors - 1), false)
+  }
+
+  /**
+   * Creates a hyperbolic projection of the bipartite network onto a node set.
+   *
+   * @param nodeSet Node set
+   *
+   * @return Projection
+   */
+  public createHyperbolicProjection (nodeSet: BipartiteNodeSet): Network {
+    return this.createProjection(nodeSet, (weight1, weight2, nNeighbors) => weight1 * weight2 / nNeighbors, false)
+  }
+
+  /**
+   * Creates a directed network for clustering the bipartite network using
+   * Barber's bipartite modularity.
+   *
+   * The left nodes of the bipartite network are nodes `0, ...,
+   * nLeftNodes - 1` in the directed network, and the right nodes are nodes
+   * `nLeftNodes, ..., nLeftNodes + nRightNodes - 1`. Each edge becomes an arc
+   * in both directions. The out node weight of a left node equals
+   * `2 / m` times its total edge weight, where `m` is the total edge weight
+   * of the bipartite network, and the in node weight of a right node equals
+   * its total edge weight. The other node weights are 0. The directed CPM
+   * quality function with resolution parameter `resolution` then equals
+   * Barber's bipartite modularity
+   *
+   * ```
+   * 1 / m * sum(d(c[i], c[j]) * (w[i][j] - resolution * s[i] * s[j] / m)),
+   * ```
+   *
+   * where `s[i]` is the total edge weight of node `i` and the sum is taken
+   * over all pairs of a left node `i` and a right node `j`.
+   *
+   * @return Directed network
+   */
+  public createNetworkForBipartiteModularity (): DirectedNetwork {
+    const nNodes = this.nLeftNodes + this.nRightNodes
+    const totalEdgeWeight = this.getTotalEdgeWeight()
+    const leftTotalEdgeWeights = this.getTotalEdgeWeightPerNode(BipartiteNodeSet.Left)
+    const rightTotalEdgeWeights = this.getTotalEdgeWeightPerNode(BipartiteNodeSet.Right)
+
+    const outNodeWeights = new Array<number>(nNodes).fill(0)
+    const inNodeWeights = new Array<number>(nNodes).fill(0)
+    for (let i = 0; i < this.nLeftNodes; i++) {
+      outNodeWeights[i] = (totalEdgeWeight > 0) ? 2 * leftTotalEdgeWeights[i] / totalEdgeWeight : 0
+    }
+    for (let i = 0; i < this.nRightNodes; i++) {
+      inNodeWeights[this.nLeftNodes + i] = rightTotalEdgeWeights[i]
+    }
+
+    const edges = this.getEdges()
+    const arcs = [new Array<number>(0), new Array<number>(0)]
+    const arcWeights = new Array<number>(0)
+    for (let i = 0; i < edges[0].length; i++) {
+      arcs[0].push(edges[0][i], this.nLeftNodes + edges[1][i])
+      arcs[1].push(this.nLeftNodes + edges[1][i], edges[0][i])
+      arcWeights.push(this.rightEdgeWeights[i], this.rightEdgeWeights[i])
+    }
+
+    return new DirectedNetwork({ outNodeWeights, inNodeWeights, arcs, arcWeights })
+  }
+
+  /**
+   * Splits a clustering of the nodes in the network created by
+   * {@link createNetworkForBipartiteModularity} into a clustering of the
+   * left nodes and a clustering of the right nodes. Clusters are numbered
+   * consistently in both clusterings, so some clusters may be empty.
+   *
+   * @param clustering Clustering
+   *
+   * @return Clusterings of the left and right nodes
+   */
+  public splitClustering (clustering: Clustering): BipartiteClustering {
+    const clusters = clustering.getClusters()
+    const leftClustering = new Clustering({ clusters: clusters.slice(0, this.nLeftNodes) })
+    const rightClustering = new Clustering({ clusters: clusters.slice(this.nLeftNodes) })
+    leftClustering.nClusters = rightClustering.nClusters = clustering.getNClusters()
+    return { leftClustering, rightClustering }
+  }
+
+  private createProjection (nodeSet: BipartiteNodeSet, calcContribution: (weight1: number, weight2: number, nNeighbors: number) => number, binary: boolean): Network {
+    const left = (nodeSet === BipartiteNodeSet.Left)
+    const nNodes = left ? this.nLeftNodes : this.nRightNodes
+    const firstNeighborIndices1 = left ? this.firstRightNeighborIndices : this.firstLeftNeighborIndices
+    const neighbors1 = left ? this.rightNeighbors : this.leftNeighbors
+    const edgeWeights1 = left ? this.rightEdgeWeights : this.leftEdgeWeights
+    const firstNeighborIndices2 = left ? this.firstLeftNeighborIndices : this.firstRightNeighborIndices
+    const neighbors2 = left ? this.leftNeighbors : this.rightNeighbors
+    const edgeWeights2 = left ? this.leftEdgeWeights : this.rightEdgeWeights
+
+    const firstNeighborIndices = new Array<number>(nNodes + 1)
+    const neighbors = new Array<number>(0)
+    const edgeWeights = new Array<number>(0)
+    const edgeWeightPerNeighbor = new Array<number>(nNodes).fill(0)
+    const lastVisitedBy = new Array<number>(nNodes).fill(-1)
+    firstNeighborIndices[0] = 0
+    for (let i = 0; i < nNodes; i++) {
+      const neighborsOfNode = new Array<number>(0)
+      for (let j = firstNeighborIndices1[i]; j < firstNeighborIndices1[i + 1]; j++) {
+        const k = neighbors1[j]
+        const nNeighbors = firstNeighborIndices2[k + 1] - firstNeighborIndices2[k]
+        for (let l = firstNeighborIndices2[k]; l < firstNeighborIndices2[k + 1]; l++) {
+          const m = neighbors2[l]
+          if (m !== i) {
+            if (lastVisitedBy[m] !== i) {
+              lastVisitedBy[m] = i
+              neighborsOfNode.push(m)
+            }
+            edgeWeightPerNeighbor[m] += calcContribution(edgeWeights1[j], edgeWeights2[l], nNeighbors)
+          }
+        }
+      }
+      neighborsOfNode.sort((a, b) => a - b)
+      for (let j = 0; j < neighborsOfNode.length; j++) {
+        neighbors.push(neighborsOfNode[j])
+        edgeWeights.push(binary ? 1 : edgeWeightPerNeighbor[neighborsOfNode[j]])
+        edgeWeightPerNeighbor[neighborsOfNode[j]] = 0
+      }
+      firstNeighborIndices[i + 1] = neighbors.length
+    }
+
+    return new Network({
+      nodeWeights: this.getTotalEdgeWeightPerNode(nodeSet),
+      firstNeighborIndices,
+      neighbors,
+      edgeWeights,
+    })
+  }
+}
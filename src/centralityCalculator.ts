@@ -0,0 +1,371 @@
+import Random from 'java-random'
+import Network from './network'
+import ShortestPathsCalculator, { EdgeWeightInterpretation } from './shortestPathsCalculator'
+import { generateRandomPermutation } from './utils/arrays'
+import DistanceQueue from './utils/distanceQueue'
+
+/**
+ * Calculator of centrality measures of the nodes in a network.
+ *
+ * The measures are calculated directly on the sparse compressed arrays of a
+ * network and take edge weights into account. Edge weights are interpreted
+ * as strengths of the connections between nodes. Measures based on shortest
+ * paths therefore use the reciprocal of the weight of an edge as its length.
+ * Self links are not stored in the arrays of a network and are ignored.
+ * Directed networks are treated as undirected networks.
+ */
+export default class CentralityCalculator {
+  /**
+   * Default damping factor of PageRank.
+   */
+  public static readonly DEFAULT_DAMPING_FACTOR: number = 0.85
+
+  /**
+   * Default maximum number of iterations of eigenvector centrality and
+   * PageRank.
+   */
+  public static readonly DEFAULT_MAX_N_ITERATIONS: number = 1000
+
+  /**
+   * Default tolerance of eigenvector centrality and PageRank.
+   */
+  public static readonly DEFAULT_TOLERANCE: number = 1e-10
+
+  /**
+   * Damping factor of PageRank.
+   */
+  protected dampingFactor: number
+
+  /**
+   * Maximum number of iterations of eigenvector centrality and PageRank.
+   */
+  protected maxNIterations: number
+
+  /**
+   * Tolerance of eigenvector centrality and PageRank.
+   */
+  protected tolerance: number
+
+  /**
+   * Constructs a centrality calculator.
+   */
+  public constructor () {
+    this.dampingFactor = CentralityCalculator.DEFAULT_DAMPING_FACTOR
+    this.maxNIterations = CentralityCalculator.DEFAULT_MAX_N_ITERATIONS
+    this.tolerance = CentralityCalculator.DEFAULT_TOLERANCE
+  }
+
+  /**
+   * Returns the damping factor of PageRank.
+   *
+   * @return Damping factor
+   */
+  public getDampingFactor (): number {
+    return this.dampingFactor
+  }
+
+  /**
+   * Returns the maximum number of iterations of eigenvector centrality and
+   * PageRank.
+   *
+   * @return Maximum number of iterations
+   */
+  public getMaxNIterations (): number {
+    return this.maxNIterations
+  }
+
+  /**
+   * Returns the tolerance of eigenvector centrality and PageRank.
+   *
+   * @return Tolerance
+   */
+  public getTolerance (): number {
+    return this.tolerance
+  }
+
+  /**
+   * Sets the damping factor of PageRank.
+   *
+   * @param dampingFactor Damping factor, between 0 and 1
+   */
+  public setDampingFactor (dampingFactor: number): void {
+    this.dampingFactor = dampingFactor
+  }
+
+  /**
+   * Sets the maximum number of iterations of eigenvector centrality and
+   * PageRank.
+   *
+   * @param maxNIterations Maximum number of iterations
+   */
+  public setMaxNIterations (maxNIterations: number): void {
+    this.maxNIterations = maxNIterations
+  }
+
+  /**
+   * Sets the tolerance of eigenvector centrality and PageRank. Iterations
+   * stop when the sum of the absolute changes of the centralities is below
+   * the tolerance.
+   *
+   * @param tolerance Tolerance
+   */
+  public setTolerance (tolerance: number): void {
+    this.tolerance = tolerance
+  }
+
+  /**
+   * Calculates the degree centrality of each node, that is, the number of
+   * neighbors of each node.
+   *
+   * @param network Network
+   *
+   * @return Degree centrality of each node
+   */
+  public calcDegreeCentrality (network: Network): number[] {
+    return network.getNNeighborsPerNode()
+  }
+
+  /**
+   * Calculates the strength of each node, that is, the total weight of the
+   * edges of each node.
+   *
+   * @param network Network
+   *
+   * @return Strength of each node
+   */
+  public calcStrength (network: Network): number[] {
+    return network.getTotalEdgeWeightPerNode()
+  }
+
+  /**
+   * Calculates the betweenness centrality of each node using the algorithm of
+   * Brandes.
+   *
+   * The betweenness centrality of a node equals the number of shortest paths
+   * between pairs of other nodes that pass through the node, where each pair
+   * is counted once and paths are weighted by the reciprocal of the number of
+   * shortest paths between the pair.
+   *
+   * If a number of samples is provided, shortest paths are calculated only
+   * from a random sample of source nodes, and the betweenness centralities
+   * are extrapolated to all source nodes. This yields an unbiased estimate
+   * of the betweenness centralities.
+   *
+   * @param network  Network
+   * @param nSamples Number of sampled source nodes
+   * @param random   Random number generator
+   *
+   * @return Betweenness centrality of each node
+   */
+  public calcBetweennessCentrality (network: Network, nSamples?: number, random: Random = new Random()): number[] {
+    const nNodes = network.getNNodes()
+    let sources = [...Array(nNodes).keys()]
+    if (nSamples !== undefined && nSamples < nNodes) {
+      sources = generateRandomPermutation(nNodes, random).slice(0, nSamples)
+    }
+
+    const betweennessCentralities = new Array<number>(nNodes).fill(0)
+    const distances = new Array<number>(nNodes)
+    const nShortestPaths = new Array<number>(nNodes)
+    const dependencies = new Array<number>(nNodes)
+    const predecessors = new Array<number[]>(nNodes)
+    const queue = new DistanceQueue(nNodes)
+    for (let i = 0; i < sources.length; i++) {
+      queue.reset()
+      distances.fill(Number.POSITIVE_INFINITY)
+      nShortestPaths.fill(0)
+      dependencies.fill(0)
+      for (let j = 0; j < nNodes; j++) {
+        predecessors[j] = []
+      }
+
+      const orderedNodes = new Array<number>(0)
+      distances[sources[i]] = 0
+      nShortestPaths[sources[i]] = 1
+      queue.push(sources[i], 0)
+      while (!queue.isEmpty()) {
+        const j = queue.pop()
+        orderedNodes.push(j)
+        for (let k = network.firstNeighborIndices[j]; k < network.firstNeighborIndices[j + 1]; k++) {
+          const l = network.neighbors[k]
+          const distance = distances[j] + 1 / network.edgeWeights[k]
+          if (distance < distances[l]) {
+            distances[l] = distance
+            nShortestPaths[l] = nShortestPaths[j]
+            predecessors[l] = [j]
+            queue.push(l, distance)
+          } else if (distance === distances[l]) {
+            nShortestPaths[l] += nShortestPaths[j]
+            predecessors[l].push(j)
+          }
+        }
+      }
+
+      for (let j = orderedNodes.length - 1; j > 0; j--) {
+        const k = orderedNodes[j]
+        for (let l = 0; l < predecessors[k].length; l++) {
+          const m = predecessors[k][l]
+          dependencies[m] += nShortestPaths[m] / nShortestPaths[k] * (1 + dependencies[k])
+        }
+        betweennessCentralities[k] += dependencies[k]
+      }
+    }
+
+    const scalingFactor = (sources.length > 0) ? nNodes / sources.length / 2 : 0
+    for (let i = 0; i < nNodes; i++) {
+      betweennessCentralities[i] *= scalingFactor
+    }
+    return betweennessCentralities
+  }
+
+  /**
+   * Calculates the closeness centrality of each node.
+   *
+   * The closeness centrality of a node equals the number of other nodes that
+   * can be reached from the node divided by the sum of the shortest path
+   * lengths to these nodes. To make the closeness centralities of nodes in
+   * different connected components comparable, this value is multiplied by
+   * the fraction of the other nodes that can be reached from the node. Nodes
+   * from which no other nodes can be reached have a closeness centrality of
+   * 0.
+   *
+   * @param network Network
+   *
+   * @return Closeness centrality of each node
+   */
+  public calcClosenessCentrality (network: Network): number[] {
+    const nNodes = network.getNNodes()
+    const closenessCentralities = new Array<number>(nNodes).fill(0)
+    const shortestPathsCalculator = new ShortestPathsCalculator(EdgeWeightInterpretation.Similarity)
+    for (let i = 0; i < nNodes; i++) {
+      const distances = shortestPathsCalculator.calcDistances(network, i)
+      let nReachableNodes = 0
+      let totalDistance = 0
+      for (let j = 0; j < nNodes; j++) {
+        if (j !== i && distances[j] < Number.POSITIVE_INFINITY) {
+          nReachableNodes++
+          totalDistance += distances[j]
+        }
+      }
+      if (totalDistance > 0) {
+        closenessCentralities[i] = nReachableNodes / totalDistance * nReachableNodes / (nNodes - 1)
+      }
+    }
+    return closenessCentralities
+  }
+
+  /**
+   * Calculates the harmonic centrality of each node, that is, the sum of the
+   * reciprocals of the shortest path lengths from each node to the other
+   * nodes.
+   *
+   * @param network Network
+   *
+   * @return Harmonic centrality of each node
+   */
+  public calcHarmonicCentrality (network: Network): number[] {
+    const nNodes = network.getNNodes()
+    const harmonicCentralities = new Array<number>(nNodes).fill(0)
+    const shortestPathsCalculator = new ShortestPathsCalculator(EdgeWeightInterpretation.Similarity)
+    for (let i = 0; i < nNodes; i++) {
+      const distances = shortestPathsCalculator.calcDistances(network, i)
+      for (let j = 0; j < nNodes; j++) {
+        if (j !== i && distances[j] < Number.POSITIVE_INFINITY) {
+          harmonicCentralities[i] += 1 / distances[j]
+        }
+      }
+    }
+    return harmonicCentralities
+  }
+
+  /**
+   * Calculates the eigenvector centrality of each node.
+   *
+   * The eigenvector centralities are the elements of the principal
+   * eigenvector of the weighted adjacency matrix. They are calculated using
+   * power iteration on the adjacency matrix plus the identity matrix, which
+   * has the same principal eigenvector but also converges for bipartite
+   * networks. The eigenvector is normalized to have a Euclidean length of 1.
+   *
+   * @param network Network
+   *
+   * @return Eigenvector centrality of each node
+   */
+  public calcEigenvectorCentrality (network: Network): number[] {
+    const nNodes = network.getNNodes()
+    let centralities = new Array<number>(nNodes).fill(1 / Math.sqrt(nNodes))
+    let newCentralities = new Array<number>(nNodes)
+    for (let i = 0; i < this.maxNIterations; i++) {
+      for (let j = 0; j < nNodes; j++) {
+        newCentralities[j] = centralities[j]
+        for (let k = network.firstNeighborIndices[j]; k < network.firstNeighborIndices[j + 1]; k++) {
+          newCentralities[j] += network.edgeWeights[k] * centralities[network.neighbors[k]]
+        }
+      }
+      let length = 0
+      for (let j = 0; j < nNodes; j++) {
+        length += newCentralities[j] * newCentralities[j]
+      }
+      length = Math.sqrt(length)
+      let change = 0
+      for (let j = 0; j < nNodes; j++) {
+        newCentralities[j] /= length
+        change += Math.abs(newCentralities[j] - centralities[j])
+      }
+      const oldCentralities = centralities
+      centralities = newCentralities
+      newCentralities = oldCentralities
+      if (change < this.tolerance) {
+        break
+      }
+    }
+    return centralities
+  }
+
+  /**
+   * Calculates the PageRank of each node.
+   *
+   * A random walker moves from a node to a neighbor with a probability
+   * proportional to the weight of the edge between the nodes. With a
+   * probability of one minus the damping factor, and always at nodes without
+   * neighbors, the walker instead jumps to a node chosen uniformly at random.
+   * The PageRanks sum to 1.
+   *
+   * @param network Network
+   *
+   * @return PageRank of each node
+   */
+  public calcPageRank (network: Network): number[] {
+    const nNodes = network.getNNodes()
+    const strengths = network.getTotalEdgeWeightPerNode()
+    let pageRanks = new Array<number>(nNodes).fill(1 / nNodes)
+    let newPageRanks = new Array<number>(nNodes)
+    for (let i = 0; i < this.maxNIterations; i++) {
+      let danglingPageRank = 0
+      for (let j = 0; j < nNodes; j++) {
+        if (strengths[j] === 0) {
+          danglingPageRank += pageRanks[j]
+        }
+      }
+      const jumpProbability = ((1 - this.dampingFactor) + this.dampingFactor * danglingPageRank) / nNodes
+      for (let j = 0; j < nNodes; j++) {
+        newPageRanks[j] = jumpProbability
+        for (let k = network.firstNeighborIndices[j]; k < network.firstNeighborIndices[j + 1]; k++) {
+          const l = network.neighbors[k]
+          newPageRanks[j] += this.dampingFactor * pageRanks[l] * network.edgeWeights[k] / strengths[l]
+        }
+      }
+      let change = 0
+      for (let j = 0; j < nNodes; j++) {
+        change += Math.abs(newPageRanks[j] - pageRanks[j])
+      }
+      const oldPageRanks = pageRanks
+      pageRanks = newPageRanks
+      newPageRanks = oldPageRanks
+      if (change < this.tolerance) {
+        break
+      }
+    }
+    return pageRanks
+  }
+}
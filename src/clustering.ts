@@ -1,4 +1,6 @@
-import { calcMaximum } from './utils/arrays'
+import { IntegerArray, DoubleArray, calcMaximum, createIntegerArray, convertIntegerArray, copyToArray } from './utils/arrays'
+import { BINARY_HEADER_LENGTH, createBinary, readBinaryHeader, checkBinaryLength, readIntegerArray } from './utils/binary'
+import { JSON_VERSION, parseJSON, checkJSONVersion, checkJSONNumber, checkJSONNumberArray } from './utils/json'
 
 /**
  * Interface for specifying the number of nodes when constructing a clustering.
@@ -8,6 +10,11 @@ export interface ClusteringParametersWithNNodes {
    * Number of nodes.
    */
   nNodes: number
+
+  /**
+   * Indicates whether to store the clustering in a typed array.
+   */
+  useTypedArrays?: boolean
 }
 
 /**
@@ -15,22 +22,52 @@ export interface ClusteringParametersWithNNodes {
  * clustering.
  */
 export interface ClusteringParametersWithClusters {
+  /**
+   * Cluster of each node.
+   */
+  clusters: IntegerArray
+
+  /**
+   * Indicates whether to store the clustering in a typed array.
+   */
+  useTypedArrays?: boolean
+}
+
+/**
+ * Interface for the JSON representation of a clustering.
+ */
+export interface ClusteringJSON {
+  /**
+   * Version of the JSON representation.
+   */
+  version: number
+
+  /**
+   * Number of clusters.
+   */
+  nClusters: number
+
   /**
    * Cluster of each node.
    */
   clusters: number[]
 }
 
+const CLUSTERING_BINARY_IDENTIFIER = 'NACL'
+
 /**
  * Clustering of the nodes in a network.
  *
  * Each node belongs to exactly one cluster.
+ *
+ * The clusters are stored either in a plain array or, if requested when
+ * constructing the clustering, in a typed array.
  */
 export default class Clustering {
   /**
    * Cluster of each node.
    */
-  public clusters!: number[]
+  public clusters!: IntegerArray
 
   /**
    * Number of clusters.
@@ -55,6 +92,51 @@ export default class Clustering {
       const clusteringParameters = parameters as ClusteringParametersWithClusters
       this.initializeBasedOnClusters(clusteringParameters.clusters)
     }
+    if (this.clusters !== undefined) this.clusters = convertIntegerArray(this.clusters, parameters.useTypedArrays === true)
+  }
+
+  /**
+   * Creates a clustering from its JSON representation.
+   *
+   * @param json JSON representation, either as object or as string
+   *
+   * @return Clustering
+   *
+   * @throws The JSON representation is not a valid representation of a clustering.
+   */
+  public static fromJSON (json: ClusteringJSON | string): Clustering {
+    const clusteringJSON = parseJSON(json)
+    checkJSONVersion(clusteringJSON.version, 'clustering')
+    checkJSONNumber(clusteringJSON.nClusters, 'nClusters', true)
+    checkJSONNumberArray(clusteringJSON.clusters, 'clusters', true)
+    if (clusteringJSON.clusters.some(cluster => cluster >= clusteringJSON.nClusters)) {
+      throw new Error('Elements of clusters array must have values less than nClusters.')
+    }
+
+    const clustering = new Clustering({ clusters: clusteringJSON.clusters } as ClusteringParametersWithClusters)
+    clustering.nClusters = clusteringJSON.nClusters
+    return clustering
+  }
+
+  /**
+   * Creates a clustering from its binary representation.
+   *
+   * @param binary         Binary representation, either as buffer or as view
+   * @param useTypedArrays Indicates whether to store the clustering in typed arrays
+   *
+   * @return Clustering
+   *
+   * @throws The binary representation is not a valid representation of a clustering.
+   */
+  public static fromBinary (binary: ArrayBuffer | ArrayBufferView, useTypedArrays = true): Clustering {
+    const { buffer, headerValues: [nNodes, nClusters] } = readBinaryHeader(binary, CLUSTERING_BINARY_IDENTIFIER, 'clustering')
+    checkBinaryLength(buffer, BINARY_HEADER_LENGTH + 4 * nNodes, 'clustering')
+
+    const clustering = new Clustering({ nNodes: 0 } as ClusteringParametersWithNNodes)
+    clustering.nNodes = nNodes
+    clustering.nClusters = nClusters
+    clustering.clusters = readIntegerArray(buffer, BINARY_HEADER_LENGTH, nNodes, useTypedArrays)
+    return clustering
   }
 
   /**
@@ -72,7 +154,7 @@ export default class Clustering {
    *
    * @param clusters Cluster of each node
    */
-  public initializeBasedOnClusters (clusters: number[]): void {
+  public initializeBasedOnClusters (clusters: IntegerArray): void {
     this.nNodes = clusters.length
     this.clusters = clusters.slice()
     this.nClusters = calcMaximum(clusters) + 1
@@ -114,7 +196,7 @@ export default class Clustering {
    * @return Cluster of each node
    */
   public getClusters (): number[] {
-    return this.clusters.slice()
+    return copyToArray(this.clusters)
   }
 
   /**
@@ -160,6 +242,15 @@ export default class Clustering {
     return nodesPerCluster
   }
 
+  /**
+   * Indicates whether the clustering is stored in a typed array.
+   *
+   * @return Whether the clustering is stored in a typed array
+   */
+  public usesTypedArrays (): boolean {
+    return this.clusters instanceof Int32Array
+  }
+
   /**
    * Assigns a node to a cluster.
    *
@@ -224,7 +315,7 @@ export default class Clustering {
    *
    * @see {@link orderClustersByNNodes}
    */
-  public orderClustersByWeight (nodeWeights: number[]): void {
+  public orderClustersByWeight (nodeWeights: DoubleArray): void {
     interface Cluster {
       cluster: number
       weight: number
@@ -268,8 +359,37 @@ export default class Clustering {
     this.nClusters = clustering.nClusters
   }
 
+  /**
+   * Returns the JSON representation of the clustering.
+   *
+   * The JSON representation is also used by `JSON.stringify()`.
+   *
+   * @return JSON representation
+   */
+  public toJSON (): ClusteringJSON {
+    return {
+      version: JSON_VERSION,
+      nClusters: this.nClusters,
+      clusters: copyToArray(this.clusters),
+    }
+  }
+
+  /**
+   * Returns the binary representation of the clustering.
+   *
+   * The binary representation consists of a header followed by a section with
+   * the cluster of each node as 32-bit integers.
+   *
+   * @return Binary representation
+   */
+  public toBinary (): ArrayBuffer {
+    const buffer = createBinary(CLUSTERING_BINARY_IDENTIFIER, BINARY_HEADER_LENGTH + 4 * this.nNodes, this.nNodes, this.nClusters)
+    new Int32Array(buffer, BINARY_HEADER_LENGTH, this.nNodes).set(this.clusters)
+    return buffer
+  }
+
   private initSingletonClustersHelper (): void {
-    this.clusters = new Array<number>(this.nNodes)
+    this.clusters = createIntegerArray(this.nNodes, this.usesTypedArrays())
     for (let i = 0; i < this.nNodes; i++) {
       this.clusters[i] = i
     }
@@ -0,0 +1,264 @@
+import Network from './network'
+import { NetworkBuilderResult } from './networkBuilder'
+
+/**
+ * Methods for counting co-occurrences.
+ */
+export enum CountingMethod {
+  /**
+   * Each document in which two nodes co-occur adds 1 to the weight of the
+   * edge between the nodes.
+   */
+  Full = 'full',
+
+  /**
+   * Each document in which two nodes co-occur adds `1 / (n - 1)` to the
+   * weight of the edge between the nodes, where `n` is the number of nodes
+   * in the document. Each document therefore adds 1 to the total edge weight
+   * of each of its nodes, unless it has only one node.
+   */
+  Fractional = 'fractional',
+}
+
+/**
+ * Interface for specifying parameters when constructing a co-occurrence
+ * network builder.
+ */
+export interface CoOccurrenceNetworkBuilderParameters {
+  /**
+   * Counting method. Defaults to full counting.
+   */
+  countingMethod?: CountingMethod
+
+  /**
+   * Maximum number of items of a document. Documents with more items, for
+   * instance publications with a very large number of authors, are ignored.
+   * By default, no documents are ignored.
+   */
+  maxNItemsPerDocument?: number
+
+  /**
+   * Indicates whether to store the network in typed arrays.
+   */
+  useTypedArrays?: boolean
+}
+
+/**
+ * Co-occurrence network builder.
+ *
+ * A co-occurrence network builder collects bipartite incidence records, each
+ * linking a document to an item, for instance a publication to one of its
+ * authors, cited references, or terms. Documents and items are identified by
+ * IDs. Numeric IDs are converted to strings. Adding the same record more than
+ * once has no effect. Two types of networks can be built:
+ *
+ * - Co-occurrence networks, in which items are connected if they occur in
+ *   the same documents. Depending on the items, these are co-authorship,
+ *   co-citation, or term co-occurrence networks.
+ * - Coupling networks, in which documents are connected if they share items.
+ *   If the items are cited references, these are bibliographic coupling
+ *   networks.
+ *
+ * The weight of an edge depends on the counting method. Fractional counting,
+ * as proposed by Perianes-Rodriguez, Waltman, and van Eck (2016), is applied
+ * exactly at construction time, whereas
+ * {@link Network.createNormalizedNetworkUsingFractionalization} only
+ * approximates it in an existing network. The weight of a node equals the
+ * number of documents, or in a coupling network the number of items, to
+ * which it belongs. With fractional counting, each of these contributes
+ * `1 / n` instead of 1, where `n` is the number of nodes it contains.
+ */
+export default class CoOccurrenceNetworkBuilder {
+  /**
+   * Counting method.
+   */
+  protected countingMethod: CountingMethod
+
+  /**
+   * Maximum number of items of a document.
+   */
+  protected maxNItemsPerDocument: number
+
+  /**
+   * Indicates whether to store the network in typed arrays.
+   */
+  protected useTypedArrays: boolean
+
+  /**
+   * ID of each document.
+   */
+  protected documentIds: string[] = []
+
+  /**
+   * Index of each document ID.
+   */
+  protected documentIndices = new Map<string, number>()
+
+  /**
+   * ID of each item.
+   */
+  protected itemIds: string[] = []
+
+  /**
+   * Index of each item ID.
+   */
+  protected itemIndices = new Map<string, number>()
+
+  /**
+   * Items of each document.
+   */
+  protected itemsPerDocument: number[][] = []
+
+  /**
+   * Records that have been added, with `${document}-${item}` as key.
+   */
+  protected records = new Set<string>()
+
+  /**
+   * Constructs a co-occurrence network builder.
+   *
+   * @param parameters Co-occurrence network builder parameters
+   */
+  public constructor (parameters: CoOccurrenceNetworkBuilderParameters = {}) {
+    this.countingMethod = parameters.countingMethod ?? CountingMethod.Full
+    this.maxNItemsPerDocument = parameters.maxNItemsPerDocument ?? Number.POSITIVE_INFINITY
+    this.useTypedArrays = parameters.useTypedArrays ?? false
+  }
+
+  /**
+   * Returns the number of documents.
+   *
+   * @return Number of documents
+   */
+  public getNDocuments (): number {
+    return this.documentIds.length
+  }
+
+  /**
+   * Returns the number of items.
+   *
+   * @return Number of items
+   */
+  public getNItems (): number {
+    return this.itemIds.length
+  }
+
+  /**
+   * Returns the number of records.
+   *
+   * @return Number of records
+   */
+  public getNRecords (): number {
+    return this.records.size
+  }
+
+  /**
+   * Adds a record linking a document to an item. Documents and items that
+   * have not been added yet are added.
+   *
+   * @param documentId Document ID
+   * @param itemId     Item ID
+   */
+  public addRecord (documentId: string | number, itemId: string | number): void {
+    let document = this.documentIndices.get(`${documentId}`)
+    if (document === undefined) {
+      document = this.documentIds.length
+      this.documentIds.push(`${documentId}`)
+      this.documentIndices.set(`${documentId}`, document)
+      this.itemsPerDocument.push([])
+    }
+    let item = this.itemIndices.get(`${itemId}`)
+    if (item === undefined) {
+      item = this.itemIds.length
+      this.itemIds.push(`${itemId}`)
+      this.itemIndices.set(`${itemId}`, item)
+    }
+    if (!this.records.has(`${document}-${item}`)) {
+      this.records.add(`${document}-${item}`)
+      this.itemsPerDocument[document].push(item)
+    }
+  }
+
+  /**
+   * Builds a co-occurrence network, in which items are connected if they
+   * occur in the same documents.
+   *
+   * Items that occur only in ignored documents are included as nodes with a
+   * weight of 0.
+   *
+   * @return Network and the mapping between item IDs and node indices
+   */
+  public buildCoOccurrenceNetwork (): NetworkBuilderResult {
+    const groups = this.itemsPerDocument.filter(items => items.length <= this.maxNItemsPerDocument)
+    return {
+      network: this.createNetwork(this.itemIds.length, groups),
+      nodeIds: this.itemIds.slice(),
+      nodeIndices: new Map(this.itemIndices),
+    }
+  }
+
+  /**
+   * Builds a coupling network, in which documents are connected if they
+   * share items.
+   *
+   * Ignored documents are included as nodes with a weight of 0.
+   *
+   * @return Network and the mapping between document IDs and node indices
+   */
+  public buildCouplingNetwork (): NetworkBuilderResult {
+    const groups = new Array<number[]>(this.itemIds.length)
+    for (let i = 0; i < this.itemIds.length; i++) {
+      groups[i] = []
+    }
+    for (let i = 0; i < this.documentIds.length; i++) {
+      if (this.itemsPerDocument[i].length <= this.maxNItemsPerDocument) {
+        for (let j = 0; j < this.itemsPerDocument[i].length; j++) {
+          groups[this.itemsPerDocument[i][j]].push(i)
+        }
+      }
+    }
+    return {
+      network: this.createNetwork(this.documentIds.length, groups),
+      nodeIds: this.documentIds.slice(),
+      nodeIndices: new Map(this.documentIndices),
+    }
+  }
+
+  private createNetwork (nNodes: number, groups: number[][]): Network {
+    const fractional = (this.countingMethod === CountingMethod.Fractional)
+    const nodeWeights = new Array<number>(nNodes).fill(0)
+    const edgeIndices = new Map<number, number>()
+    const edges = [new Array<number>(0), new Array<number>(0)]
+    const edgeWeights = new Array<number>(0)
+    for (let i = 0; i < groups.length; i++) {
+      const nodes = groups[i]
+      const nodeWeight = fractional ? 1 / nodes.length : 1
+      const edgeWeight = fractional ? 1 / (nodes.length - 1) : 1
+      for (let j = 0; j < nodes.length; j++) {
+        nodeWeights[nodes[j]] += nodeWeight
+        for (let k = j + 1; k < nodes.length; k++) {
+          const node1 = Math.min(nodes[j], nodes[k])
+          const node2 = Math.max(nodes[j], nodes[k])
+          const edgeIndex = edgeIndices.get(node1 * nNodes + node2)
+          if (edgeIndex === undefined) {
+            edgeIndices.set(node1 * nNodes + node2, edgeWeights.length)
+            edges[0].push(node1)
+            edges[1].push(node2)
+            edgeWeights.push(edgeWeight)
+          } else {
+            edgeWeights[edgeIndex] += edgeWeight
+          }
+        }
+      }
+    }
+
+    return new Network({
+      nodeWeights,
+      edges,
+      edgeWeights,
+      sortedEdges: false,
+      checkIntegrity: true,
+      useTypedArrays: this.useTypedArrays,
+    })
+  }
+}
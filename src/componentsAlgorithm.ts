@@ -19,7 +19,7 @@ export default class ComponentsAlgorithm implements ClusteringAlgorithm {
    * @return Connected components
    */
   public findClustering (network: Network): Clustering {
-    const clustering = new Clustering({ nNodes: network.getNNodes() } as ClusteringParametersWithNNodes)
+    const clustering = new Clustering({ nNodes: network.getNNodes(), useTypedArrays: network.usesTypedArrays() } as ClusteringParametersWithNNodes)
 
     clustering.nClusters = 0
     const nodesVisited = new Array<boolean>(network.nNodes).fill(false)
@@ -0,0 +1,116 @@
+import Network from './network'
+import DistanceQueue from './utils/distanceQueue'
+
+/**
+ * Algorithm for the k-core and s-core decomposition of a network.
+ *
+ * The k-core of a network is the largest subnetwork in which each node has
+ * at least `k` neighbors. The coreness of a node is the largest `k` for which
+ * the node belongs to the k-core. The s-core is defined in the same way, but
+ * based on the strength, or total edge weight, of a node instead of its
+ * number of neighbors. Self links are not stored in the arrays of a network
+ * and are ignored.
+ */
+export default class CoreDecompositionAlgorithm {
+  /**
+   * Constructs a core decomposition algorithm.
+   */
+  // public constructor () {}
+
+  /**
+   * Calculates the coreness of each node using the bucket algorithm of
+   * Batagelj and Zaversnik, which runs in linear time.
+   *
+   * @param network Network
+   *
+   * @return Coreness of each node
+   */
+  public calcCoreness (network: Network): number[] {
+    const nNodes = network.getNNodes()
+    const degrees = network.getNNeighborsPerNode()
+    let maxDegree = 0
+    for (let i = 0; i < nNodes; i++) {
+      maxDegree = Math.max(maxDegree, degrees[i])
+    }
+
+    // Sort nodes by degree using counting sort.
+    const firstIndexPerDegree = new Array<number>(maxDegree + 2).fill(0)
+    for (let i = 0; i < nNodes; i++) {
+      firstIndexPerDegree[degrees[i] + 1]++
+    }
+    for (let i = 1; i <= maxDegree + 1; i++) {
+      firstIndexPerDegree[i] += firstIndexPerDegree[i - 1]
+    }
+    const sortedNodes = new Array<number>(nNodes)
+    const positions = new Array<number>(nNodes)
+    const nextIndexPerDegree = firstIndexPerDegree.slice()
+    for (let i = 0; i < nNodes; i++) {
+      positions[i] = nextIndexPerDegree[degrees[i]]
+      sortedNodes[positions[i]] = i
+      nextIndexPerDegree[degrees[i]]++
+    }
+
+    // Remove nodes in order of increasing degree, moving each neighbor with a
+    // larger degree one bucket down.
+    for (let i = 0; i < nNodes; i++) {
+      const j = sortedNodes[i]
+      for (let k = network.firstNeighborIndices[j]; k < network.firstNeighborIndices[j + 1]; k++) {
+        const l = network.neighbors[k]
+        if (degrees[l] > degrees[j]) {
+          const m = firstIndexPerDegree[degrees[l]]
+          const n = sortedNodes[m]
+          if (n !== l) {
+            sortedNodes[positions[l]] = n
+            sortedNodes[m] = l
+            positions[n] = positions[l]
+            positions[l] = m
+          }
+          firstIndexPerDegree[degrees[l]]++
+          degrees[l]--
+        }
+      }
+    }
+
+    return degrees
+  }
+
+  /**
+   * Calculates the strength coreness of each node.
+   *
+   * Nodes are repeatedly removed in order of increasing remaining strength.
+   * The strength coreness of a node equals the largest remaining strength of
+   * a node at the moment it was removed, up to and including the node
+   * itself.
+   *
+   * @param network Network
+   *
+   * @return Strength coreness of each node
+   */
+  public calcStrengthCoreness (network: Network): number[] {
+    const nNodes = network.getNNodes()
+    const strengths = network.getTotalEdgeWeightPerNode()
+    const removed = new Array<boolean>(nNodes).fill(false)
+    const coreness = new Array<number>(nNodes)
+    const queue = new DistanceQueue(nNodes)
+    for (let i = 0; i < nNodes; i++) {
+      queue.push(i, strengths[i])
+    }
+
+    let maxStrength = 0
+    while (!queue.isEmpty()) {
+      const i = queue.pop()
+      removed[i] = true
+      maxStrength = Math.max(maxStrength, strengths[i])
+      coreness[i] = maxStrength
+      for (let j = network.firstNeighborIndices[i]; j < network.firstNeighborIndices[i + 1]; j++) {
+        const k = network.neighbors[j]
+        if (!removed[k]) {
+          strengths[k] -= network.edgeWeights[j]
+          queue.push(k, strengths[k])
+        }
+      }
+    }
+
+    return coreness
+  }
+}
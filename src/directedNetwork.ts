@@ -0,0 +1,611 @@
+import AttributeTable from './attributeTable'
+import Clustering from './clustering'
+import Network from './network'
+import { IntegerArray, DoubleArray, calcSum, calcSumWithinRange, createDoubleArray, convertIntegerArray, convertDoubleArray, copyToArray } from './utils/arrays'
+
+/**
+ * Interface for specifying parameters when constructing a directed network.
+ */
+export interface DirectedNetworkConstructorParameters {
+  /**
+   * Number of nodes.
+   */
+  nNodes?: number
+
+  /**
+   * Indicates whether to set out node weights equal to total out arc weights
+   * and in node weights equal to total in arc weights.
+   */
+  setNodeWeightsToTotalArcWeights?: boolean
+
+  /**
+   * Out node weights.
+   */
+  outNodeWeights?: DoubleArray
+
+  /**
+   * In node weights.
+   */
+  inNodeWeights?: DoubleArray
+
+  /**
+   * Arc list.
+   */
+  arcs?: number[][]
+
+  /**
+   * Arc weights.
+   */
+  arcWeights?: DoubleArray
+
+  /**
+   * Indicates whether to check the integrity of the network.
+   */
+  checkIntegrity?: boolean
+
+  /**
+   * Indicates whether to store the network in typed arrays.
+   */
+  useTypedArrays?: boolean
+
+  /**
+   * Attributes of the nodes, one row per node.
+   */
+  nodeAttributes?: AttributeTable
+}
+
+/**
+ * Directed network.
+ *
+ * Each node has an out node weight and an in node weight. The arcs of the
+ * network are stored twice in a sparse compressed format, once grouped by the
+ * node from which they depart and once grouped by the node at which they
+ * arrive. Arc weights of self links are not stored in these arrays, but are
+ * added to the total edge weight of self links.
+ *
+ * A directed network is also a {@link Network}. The network in which the
+ * weight `a'[i][j]` of the edge between nodes `i` and `j` equals
+ *
+ * ```
+ * a'[i][j] = (a[i][j] + a[j][i]) / 2,
+ * ```
+ *
+ * where `a[i][j]` is the weight of the arc from node `i` to node `j`, is stored
+ * in the arrays inherited from {@link Network}. The node weights inherited
+ * from {@link Network} are the out node weights. Algorithms that do not
+ * support directed networks therefore treat a directed network as an
+ * undirected network. The subnetworks, reduced networks, and networks without
+ * node weights created from a directed network are directed networks. Other
+ * networks created from a directed network, including its JSON and binary
+ * representations, are undirected. Edge attributes refer to the edges of the
+ * undirected network and are not carried through to directed subnetworks and
+ * reduced directed networks.
+ *
+ * Directed network objects are immutable.
+ */
+export default class DirectedNetwork extends Network {
+  /**
+   * In node weights.
+   */
+  public inNodeWeights!: DoubleArray
+
+  /**
+   * Index of the first out neighbor of each node in the `outNeighbors` array.
+   *
+   * The out neighbors of node `i` are given by
+   * `outNeighbors[firstOutNeighborIndices[i]], ...,
+   * outNeighbors[firstOutNeighborIndices[i + 1] - 1]`.
+   */
+  public firstOutNeighborIndices!: IntegerArray
+
+  /**
+   * Out neighbors of each node.
+   */
+  public outNeighbors!: IntegerArray
+
+  /**
+   * Weights of the arcs to the out neighbors of each node.
+   */
+  public outArcWeights!: DoubleArray
+
+  /**
+   * Index of the first in neighbor of each node in the `inNeighbors` array.
+   *
+   * The in neighbors of node `i` are given by
+   * `inNeighbors[firstInNeighborIndices[i]], ...,
+   * inNeighbors[firstInNeighborIndices[i + 1] - 1]`.
+   */
+  public firstInNeighborIndices!: IntegerArray
+
+  /**
+   * In neighbors of each node.
+   */
+  public inNeighbors!: IntegerArray
+
+  /**
+   * Weights of the arcs from the in neighbors of each node.
+   */
+  public inArcWeights!: DoubleArray
+
+  /**
+   * Number of arcs.
+   */
+  protected nArcs!: number
+
+  /**
+   * Constructs a directed network based on a list of arcs.
+   *
+   * Multiple arcs from one node to another node are merged into a single arc.
+   * The weight of this arc equals the sum of the weights of the merged arcs.
+   * Out and in node weights that are not provided are set to the total out
+   * and in arc weights if `setNodeWeightsToTotalArcWeights` is true and to 1
+   * otherwise.
+   *
+   * @param parameters Directed network constructor parameters
+   */
+  public constructor (parameters?: DirectedNetworkConstructorParameters) {
+    super()
+    if (parameters) {
+      if (parameters.outNodeWeights && parameters.arcs) {
+        this.initializeNetworkBasedOnArcs(parameters.outNodeWeights.length, parameters.outNodeWeights, parameters.inNodeWeights, parameters.setNodeWeightsToTotalArcWeights, parameters.arcs, parameters.arcWeights, parameters.checkIntegrity)
+      } else if (parameters.nNodes !== undefined && parameters.arcs) {
+        this.initializeNetworkBasedOnArcs(parameters.nNodes, parameters.outNodeWeights, parameters.inNodeWeights, parameters.setNodeWeightsToTotalArcWeights, parameters.arcs, parameters.arcWeights, parameters.checkIntegrity)
+      }
+      if (this.outNeighbors !== undefined) this.convertDirectedArrays(parameters.useTypedArrays === true)
+      if (parameters.nodeAttributes !== undefined) this.setAttributes(parameters.nodeAttributes, undefined)
+    }
+  }
+
+  /**
+   * Returns the number of arcs.
+   *
+   * Arcs in opposite directions between the same two nodes are counted
+   * separately.
+   *
+   * @return Number of arcs
+   */
+  public getNArcs (): number {
+    return this.nArcs
+  }
+
+  /**
+   * Returns the out weight of each node.
+   *
+   * @return Out weight of each node
+   */
+  public getOutNodeWeights (): number[] {
+    return copyToArray(this.nodeWeights)
+  }
+
+  /**
+   * Returns the in weight of each node.
+   *
+   * @return In weight of each node
+   */
+  public getInNodeWeights (): number[] {
+    return copyToArray(this.inNodeWeights)
+  }
+
+  /**
+   * Returns the total in node weight.
+   *
+   * @return Total in node weight
+   */
+  public getTotalInNodeWeight (): number {
+    return calcSum(this.inNodeWeights)
+  }
+
+  /**
+   * Returns the list of arcs.
+   *
+   * The list of arcs is returned in a two-dimensional array `arcs`. Arc `i`
+   * runs from node `arcs[0][i]` to node `arcs[1][i]`.
+   *
+   * @return List of arcs
+   */
+  public getArcs (): number[][] {
+    const arcs = new Array<Array<number>>(2)
+    arcs[0] = new Array<number>(this.nArcs)
+    for (let i = 0; i < this.nNodes; i++) {
+      arcs[0].fill(i, this.firstOutNeighborIndices[i], this.firstOutNeighborIndices[i + 1])
+    }
+    arcs[1] = copyToArray(this.outNeighbors)
+    return arcs
+  }
+
+  /**
+   * Returns the list of arc weights, in the order of the list of arcs
+   * returned by {@link getArcs}.
+   *
+   * @return List of arc weights
+   */
+  public getArcWeights (): number[] {
+    return copyToArray(this.outArcWeights)
+  }
+
+  /**
+   * Returns the list of out neighbors of a node.
+   *
+   * @param node Node
+   *
+   * @return List of out neighbors
+   */
+  public getOutNeighbors (node: number): number[] {
+    return copyToArray(this.outNeighbors, this.firstOutNeighborIndices[node], this.firstOutNeighborIndices[node + 1])
+  }
+
+  /**
+   * Returns the list of in neighbors of a node.
+   *
+   * @param node Node
+   *
+   * @return List of in neighbors
+   */
+  public getInNeighbors (node: number): number[] {
+    return copyToArray(this.inNeighbors, this.firstInNeighborIndices[node], this.firstInNeighborIndices[node + 1])
+  }
+
+  /**
+   * Returns the total out arc weight per node. The total out arc weight of a
+   * node equals the sum of the weights of the arcs from the node to its out
+   * neighbors.
+   *
+   * @return Total out arc weight per node
+   */
+  public getTotalOutArcWeightPerNode (): number[] {
+    return getTotalArcWeightPerNode(this.nNodes, this.firstOutNeighborIndices, this.outArcWeights)
+  }
+
+  /**
+   * Returns the total in arc weight per node. The total in arc weight of a
+   * node equals the sum of the weights of the arcs from its in neighbors to
+   * the node.
+   *
+   * @return Total in arc weight per node
+   */
+  public getTotalInArcWeightPerNode (): number[] {
+    return getTotalArcWeightPerNode(this.nNodes, this.firstInNeighborIndices, this.inArcWeights)
+  }
+
+  /**
+   * Returns the total arc weight.
+   *
+   * Arc weights of self links are not included.
+   *
+   * @return Total arc weight
+   */
+  public getTotalArcWeight (): number {
+    return calcSum(this.outArcWeights)
+  }
+
+  /**
+   * Creates a copy of the directed network that is stored in typed arrays or
+   * in plain arrays.
+   *
+   * @param useTypedArrays Indicates whether to store the network in typed
+   *                       arrays
+   *
+   * @return Copy of the directed network
+   */
+  public createNetworkUsingTypedArrays (useTypedArrays = true): DirectedNetwork {
+    const network = this.createCopy()
+    network.convertDirectedArrays(useTypedArrays)
+    return network
+  }
+
+  /**
+   * Creates a copy of the directed network with attributes of the nodes and
+   * the edges attached.
+   *
+   * @param nodeAttributes Attributes of the nodes, one row per node
+   * @param edgeAttributes Attributes of the edges of the undirected network,
+   *                       one row per edge in each direction
+   *
+   * @return Copy of the directed network with attributes
+   *
+   * @throws The number of rows of an attribute table is incorrect.
+   */
+  public createNetworkWithAttributes (nodeAttributes?: AttributeTable, edgeAttributes?: AttributeTable): DirectedNetwork {
+    return super.createNetworkWithAttributes(nodeAttributes, edgeAttributes) as DirectedNetwork
+  }
+
+  /**
+   * Creates a copy of the directed network, but without node weights.
+   *
+   * Each node is assigned an out weight of 1 and an in weight of 1.
+   *
+   * @return Directed network without node weights
+   */
+  public createNetworkWithoutNodeWeights (): DirectedNetwork {
+    const networkWithoutNodeWeights = this.createCopy()
+    networkWithoutNodeWeights.nodeWeights = createDoubleArray(this.nNodes, this.usesTypedArrays()).fill(1)
+    networkWithoutNodeWeights.inNodeWeights = createDoubleArray(this.nNodes, this.usesTypedArrays()).fill(1)
+    return networkWithoutNodeWeights
+  }
+
+  /**
+   * Creates an induced directed subnetwork for specified nodes.
+   *
+   * @param nodes Nodes
+   *
+   * @return Directed subnetwork
+   */
+  public createSubnetworkForNodes1 (nodes: number[]): DirectedNetwork {
+    return this.createDirectedSubnetwork(nodes, new Array<number>(this.nNodes).fill(-1))
+  }
+
+  /**
+   * Creates an induced directed subnetwork for a specified cluster in a
+   * clustering.
+   *
+   * If subnetworks need to be created for all clusters in a clustering, it
+   * is more efficient to use {@link createSubnetworks}.
+   *
+   * @param clustering Clustering
+   * @param cluster    Cluster
+   *
+   * @return Directed subnetwork
+   */
+  public createSubnetworkForCluster (clustering: Clustering, cluster: number): DirectedNetwork {
+    return this.createSubnetworkForNodes1(clustering.getNodesPerCluster()[cluster])
+  }
+
+  /**
+   * Creates induced directed subnetworks for the clusters in a clustering.
+   *
+   * @param clustering Clustering
+   *
+   * @return Directed subnetworks
+   */
+  public createSubnetworks (clustering: Clustering): DirectedNetwork[] {
+    const subnetworkNodes = new Array<number>(this.nNodes).fill(-1)
+    return clustering.getNodesPerCluster().map(nodes => this.createDirectedSubnetwork(nodes, subnetworkNodes))
+  }
+
+  /**
+   * Creates a reduced (or aggregate) directed network based on a clustering.
+   *
+   * Each node in the reduced network corresponds to a cluster of nodes in
+   * the original network. The out and in weights of a node in the reduced
+   * network equal the sums of the out and in weights of the nodes in the
+   * corresponding cluster in the original network. The weight of an arc
+   * between two nodes in the reduced network equals the sum of the weights of
+   * the arcs between the nodes in the two corresponding clusters in the
+   * original network.
+   *
+   * @param clustering Clustering
+   *
+   * @return Reduced directed network
+   */
+  public createReducedNetwork (clustering: Clustering): DirectedNetwork {
+    const outNodeWeights = new Array<number>(clustering.nClusters).fill(0)
+    const inNodeWeights = new Array<number>(clustering.nClusters).fill(0)
+    const arcs = [new Array<number>(this.nArcs), new Array<number>(this.nArcs)]
+    for (let i = 0; i < this.nNodes; i++) {
+      const j = clustering.clusters[i]
+      outNodeWeights[j] += this.nodeWeights[i]
+      inNodeWeights[j] += this.inNodeWeights[i]
+      for (let k = this.firstOutNeighborIndices[i]; k < this.firstOutNeighborIndices[i + 1]; k++) {
+        arcs[0][k] = j
+        arcs[1][k] = clustering.clusters[this.outNeighbors[k]]
+      }
+    }
+
+    const reducedNetwork = new DirectedNetwork({
+      outNodeWeights,
+      inNodeWeights,
+      arcs,
+      arcWeights: this.outArcWeights,
+      useTypedArrays: this.usesTypedArrays(),
+      nodeAttributes: this.nodeAttributes?.aggregateRows(clustering.getNodesPerCluster()),
+    })
+    reducedNetwork.totalEdgeWeightSelfLinks += this.totalEdgeWeightSelfLinks
+    return reducedNetwork
+  }
+
+  private initializeNetworkBasedOnArcs (nNodes: number, outNodeWeights: DoubleArray | undefined, inNodeWeights: DoubleArray | undefined, setNodeWeightsToTotalArcWeights: boolean | undefined, arcs: number[][], arcWeights: DoubleArray | undefined, checkIntegrity: boolean | undefined): void {
+    if (checkIntegrity) this.checkArcs(nNodes, outNodeWeights, inNodeWeights, arcs, arcWeights)
+
+    this.nNodes = nNodes
+    this.totalEdgeWeightSelfLinks = 0
+    const sources = new Array<number>(0)
+    const targets = new Array<number>(0)
+    const weights = new Array<number>(0)
+    for (let i = 0; i < arcs[0].length; i++) {
+      const weight = arcWeights !== undefined ? arcWeights[i] : 1
+      if (arcs[0][i] !== arcs[1][i]) {
+        sources.push(arcs[0][i])
+        targets.push(arcs[1][i])
+        weights.push(weight)
+      } else {
+        this.totalEdgeWeightSelfLinks += weight
+      }
+    }
+
+    const outArcs = compressArcs(nNodes, sources, targets, weights)
+    this.firstOutNeighborIndices = outArcs.firstNeighborIndices
+    this.outNeighbors = outArcs.neighbors
+    this.outArcWeights = outArcs.arcWeights
+    this.nArcs = this.outNeighbors.length
+    const inArcs = compressArcs(nNodes, targets, sources, weights)
+    this.firstInNeighborIndices = inArcs.firstNeighborIndices
+    this.inNeighbors = inArcs.neighbors
+    this.inArcWeights = inArcs.arcWeights
+
+    this.initializeEdgesBasedOnArcs()
+
+    if (outNodeWeights !== undefined) {
+      this.nodeWeights = outNodeWeights.slice()
+    } else {
+      this.nodeWeights = setNodeWeightsToTotalArcWeights ? this.getTotalOutArcWeightPerNode() : new Array<number>(nNodes).fill(1)
+    }
+    if (inNodeWeights !== undefined) {
+      this.inNodeWeights = inNodeWeights.slice()
+    } else {
+      this.inNodeWeights = setNodeWeightsToTotalArcWeights ? this.getTotalInArcWeightPerNode() : new Array<number>(nNodes).fill(1)
+    }
+  }
+
+  private initializeEdgesBasedOnArcs (): void {
+    this.firstNeighborIndices = new Array<number>(this.nNodes + 1).fill(0)
+    const neighbors = new Array<number>(0)
+    const edgeWeights = new Array<number>(0)
+    for (let i = 0; i < this.nNodes; i++) {
+      let j = this.firstOutNeighborIndices[i]
+      let k = this.firstInNeighborIndices[i]
+      while (j < this.firstOutNeighborIndices[i + 1] || k < this.firstInNeighborIndices[i + 1]) {
+        const outNeighbor = j < this.firstOutNeighborIndices[i + 1] ? this.outNeighbors[j] : this.nNodes
+        const inNeighbor = k < this.firstInNeighborIndices[i + 1] ? this.inNeighbors[k] : this.nNodes
+        let edgeWeight = 0
+        if (outNeighbor <= inNeighbor) {
+          edgeWeight += this.outArcWeights[j]
+          j++
+        }
+        if (inNeighbor <= outNeighbor) {
+          edgeWeight += this.inArcWeights[k]
+          k++
+        }
+        neighbors.push(Math.min(outNeighbor, inNeighbor))
+        edgeWeights.push(edgeWeight / 2)
+      }
+      this.firstNeighborIndices[i + 1] = neighbors.length
+    }
+    this.neighbors = neighbors
+    this.edgeWeights = edgeWeights
+    this.nEdges = neighbors.length
+  }
+
+  private checkArcs (nNodes: number, outNodeWeights: DoubleArray | undefined, inNodeWeights: DoubleArray | undefined, arcs: number[][], arcWeights: DoubleArray | undefined): void {
+    if (nNodes < 0) {
+      throw new Error('nNodes must be non-negative.')
+    }
+    if (outNodeWeights !== undefined && outNodeWeights.length !== nNodes) {
+      throw new Error('Length of outNodeWeights array must be equal to nNodes.')
+    }
+    if (inNodeWeights !== undefined && inNodeWeights.length !== nNodes) {
+      throw new Error('Length of inNodeWeights array must be equal to nNodes.')
+    }
+    if (arcs.length !== 2 || arcs[0].length !== arcs[1].length) {
+      throw new Error('Arc list must consist of two arrays of equal length.')
+    }
+    if (arcWeights !== undefined && arcWeights.length !== arcs[0].length) {
+      throw new Error('Length of arcWeights array must be equal to number of arcs.')
+    }
+    for (let i = 0; i < arcs[0].length; i++) {
+      if (!Number.isInteger(arcs[0][i]) || !Number.isInteger(arcs[1][i]) || arcs[0][i] < 0 || arcs[1][i] < 0) {
+        throw new Error('Elements of arc list must be non-negative integers.')
+      } else if (arcs[0][i] >= nNodes || arcs[1][i] >= nNodes) {
+        throw new Error('Elements of arc list must have values less than nNodes.')
+      }
+    }
+  }
+
+  private createCopy (): DirectedNetwork {
+    const network = new DirectedNetwork()
+    network.nNodes = this.nNodes
+    network.nEdges = this.nEdges
+    network.nArcs = this.nArcs
+    network.nodeWeights = this.nodeWeights
+    network.inNodeWeights = this.inNodeWeights
+    network.firstNeighborIndices = this.firstNeighborIndices
+    network.neighbors = this.neighbors
+    network.edgeWeights = this.edgeWeights
+    network.firstOutNeighborIndices = this.firstOutNeighborIndices
+    network.outNeighbors = this.outNeighbors
+    network.outArcWeights = this.outArcWeights
+    network.firstInNeighborIndices = this.firstInNeighborIndices
+    network.inNeighbors = this.inNeighbors
+    network.inArcWeights = this.inArcWeights
+    network.totalEdgeWeightSelfLinks = this.totalEdgeWeightSelfLinks
+    network.nodeAttributes = this.nodeAttributes
+    network.edgeAttributes = this.edgeAttributes
+    return network
+  }
+
+  private createDirectedSubnetwork (nodes: number[], subnetworkNodes: number[]): DirectedNetwork {
+    for (let i = 0; i < nodes.length; i++) {
+      subnetworkNodes[nodes[i]] = i
+    }
+
+    const outNodeWeights = new Array<number>(nodes.length)
+    const inNodeWeights = new Array<number>(nodes.length)
+    const arcs = [new Array<number>(0), new Array<number>(0)]
+    const arcWeights = new Array<number>(0)
+    for (let i = 0; i < nodes.length; i++) {
+      const j = nodes[i]
+      outNodeWeights[i] = this.nodeWeights[j]
+      inNodeWeights[i] = this.inNodeWeights[j]
+      for (let k = this.firstOutNeighborIndices[j]; k < this.firstOutNeighborIndices[j + 1]; k++) {
+        const l = subnetworkNodes[this.outNeighbors[k]]
+        if (l >= 0) {
+          arcs[0].push(i)
+          arcs[1].push(l)
+          arcWeights.push(this.outArcWeights[k])
+        }
+      }
+    }
+
+    for (let i = 0; i < nodes.length; i++) {
+      subnetworkNodes[nodes[i]] = -1
+    }
+
+    return new DirectedNetwork({ outNodeWeights, inNodeWeights, arcs, arcWeights, useTypedArrays: this.usesTypedArrays(), nodeAttributes: this.nodeAttributes?.selectRows(nodes) })
+  }
+
+  private convertDirectedArrays (useTypedArrays: boolean): void {
+    this.nodeWeights = convertDoubleArray(this.nodeWeights, useTypedArrays)
+    this.inNodeWeights = convertDoubleArray(this.inNodeWeights, useTypedArrays)
+    this.firstNeighborIndices = convertIntegerArray(this.firstNeighborIndices, useTypedArrays)
+    this.neighbors = convertIntegerArray(this.neighbors, useTypedArrays)
+    this.edgeWeights = convertDoubleArray(this.edgeWeights, useTypedArrays)
+    this.firstOutNeighborIndices = convertIntegerArray(this.firstOutNeighborIndices, useTypedArrays)
+    this.outNeighbors = convertIntegerArray(this.outNeighbors, useTypedArrays)
+    this.outArcWeights = convertDoubleArray(this.outArcWeights, useTypedArrays)
+    this.firstInNeighborIndices = convertIntegerArray(this.firstInNeighborIndices, useTypedArrays)
+    this.inNeighbors = convertIntegerArray(this.inNeighbors, useTypedArrays)
+    this.inArcWeights = convertDoubleArray(this.inArcWeights, useTypedArrays)
+  }
+}
+
+function compressArcs (nNodes: number, sources: number[], targets: number[], weights: number[]): { firstNeighborIndices: number[], neighbors: number[], arcWeights: number[] } {
+  // Group the arcs by source node using a counting sort.
+  const firstArcIndices = new Array<number>(nNodes + 1).fill(0)
+  for (let i = 0; i < sources.length; i++) {
+    firstArcIndices[sources[i] + 1]++
+  }
+  for (let i = 0; i < nNodes; i++) {
+    firstArcIndices[i + 1] += firstArcIndices[i]
+  }
+  const nextArcIndices = firstArcIndices.slice(0, nNodes)
+  const arcIndices = new Array<number>(sources.length)
+  for (let i = 0; i < sources.length; i++) {
+    arcIndices[nextArcIndices[sources[i]]] = i
+    nextArcIndices[sources[i]]++
+  }
+
+  // Sort the arcs of each source node by target node and merge duplicate arcs.
+  const firstNeighborIndices = new Array<number>(nNodes + 1).fill(0)
+  const neighbors = new Array<number>(0)
+  const arcWeights = new Array<number>(0)
+  for (let i = 0; i < nNodes; i++) {
+    const nodeArcIndices = arcIndices.slice(firstArcIndices[i], firstArcIndices[i + 1]).sort((a, b) => targets[a] - targets[b])
+    nodeArcIndices.forEach(j => {
+      if (neighbors.length > firstNeighborIndices[i] && neighbors[neighbors.length - 1] === targets[j]) {
+        arcWeights[arcWeights.length - 1] += weights[j]
+      } else {
+        neighbors.push(targets[j])
+        arcWeights.push(weights[j])
+      }
+    })
+    firstNeighborIndices[i + 1] = neighbors.length
+  }
+  return { firstNeighborIndices, neighbors, arcWeights }
+}
+
+function getTotalArcWeightPerNode (nNodes: number, firstNeighborIndices: IntegerArray, arcWeights: DoubleArray): number[] {
+  const totalArcWeightPerNode = new Array<number>(nNodes)
+  for (let i = 0; i < nNodes; i++) {
+    totalArcWeightPerNode[i] = calcSumWithinRange(arcWeights, firstNeighborIndices[i], firstNeighborIndices[i + 1])
+  }
+  return totalArcWeightPerNode
+}
@@ -1,8 +1,9 @@
 import Random from 'java-random'
 import IterativeCPMClusteringAlgorithm from './iterativeCPMClusteringAlgorithm'
 import Clustering from './clustering'
+import DirectedNetwork from './directedNetwork'
 import Network from './network'
-import { generateRandomPermutation } from './utils/arrays'
+import { generateRandomPermutation, createIntegerArray, createDoubleArray } from './utils/arrays'
 
 /**
  * Fast local moving algorithm.
@@ -93,15 +94,18 @@ export default class FastLocalMovingAlgorithm extends IterativeCPMClusteringAlgo
 
     let update = false
 
-    const clusterWeights = new Array<number>(network.nNodes).fill(0)
-    const nNodesPerCluster = new Array<number>(network.nNodes).fill(0)
+    const inNodeWeights = (network instanceof DirectedNetwork) ? network.inNodeWeights : undefined
+    const clusterWeights = createDoubleArray(network.nNodes, network.usesTypedArrays())
+    const inClusterWeights = createDoubleArray(inNodeWeights ? network.nNodes : 0, network.usesTypedArrays())
+    const nNodesPerCluster = createIntegerArray(network.nNodes, network.usesTypedArrays())
     for (let i = 0; i < network.nNodes; i++) {
       clusterWeights[clustering.clusters[i]] += network.nodeWeights[i]
+      if (inNodeWeights) inClusterWeights[clustering.clusters[i]] += inNodeWeights[i]
       nNodesPerCluster[clustering.clusters[i]]++
     }
 
     let nUnusedClusters = 0
-    const unusedClusters = new Array<number>(network.nNodes - 1).fill(0)
+    const unusedClusters = createIntegerArray(network.nNodes - 1, network.usesTypedArrays())
     for (let i = network.nNodes - 1; i >= 0; i--) {
       if (nNodesPerCluster[i] === 0) {
         unusedClusters[nUnusedClusters] = i
@@ -118,8 +122,8 @@ export default class FastLocalMovingAlgorithm extends IterativeCPMClusteringAlgo
      * nodeOrder[i], ..., nodeOrder[i + nUnstableNodes - 1]. Continue
      * iterating until the queue is empty.
      */
-    const edgeWeightPerCluster = new Array<number>(network.nNodes).fill(0)
-    const neighboringClusters = new Array<number>(network.nNodes).fill(0)
+    const edgeWeightPerCluster = createDoubleArray(network.nNodes, network.usesTypedArrays())
+    const neighboringClusters = createIntegerArray(network.nNodes, network.usesTypedArrays())
     const stableNodes = new Array<boolean>(network.nNodes).fill(false)
     let nUnstableNodes = network.nNodes
     let i = 0
@@ -130,6 +134,7 @@ export default class FastLocalMovingAlgorithm extends IterativeCPMClusteringAlgo
 
       // Remove the currently selected node from its current cluster.
       clusterWeights[currentCluster] -= network.nodeWeights[j]
+      if (inNodeWeights) inClusterWeights[currentCluster] -= inNodeWeights[j]
       nNodesPerCluster[currentCluster]--
       if (nNodesPerCluster[currentCluster] === 0) {
         unusedClusters[nUnusedClusters] = currentCluster
@@ -164,13 +169,16 @@ export default class FastLocalMovingAlgorithm extends IterativeCPMClusteringAlgo
        * of the algorithm, if the old cluster of the currently selected
        * node is optimal but there are also other optimal clusters, the
        * currently selected node will be moved back to its old cluster.
+       * For a directed network, the out weight of the currently selected
+       * node is combined with the in weight of a cluster and the other way
+       * around.
        */
       let bestCluster = currentCluster
-      let maxQualityValueIncrement = edgeWeightPerCluster[currentCluster] - network.nodeWeights[j] * clusterWeights[currentCluster] * this.resolution
+      let maxQualityValueIncrement = edgeWeightPerCluster[currentCluster] - (inNodeWeights ? (network.nodeWeights[j] * inClusterWeights[currentCluster] + inNodeWeights[j] * clusterWeights[currentCluster]) / 2 : network.nodeWeights[j] * clusterWeights[currentCluster]) * this.resolution
       for (let k = 0; k < nNeighboringClusters; k++) {
         const l = neighboringClusters[k]
 
-        const qualityValueIncrement = edgeWeightPerCluster[l] - network.nodeWeights[j] * clusterWeights[l] * this.resolution
+        const qualityValueIncrement = edgeWeightPerCluster[l] - (inNodeWeights ? (network.nodeWeights[j] * inClusterWeights[l] + inNodeWeights[j] * clusterWeights[l]) / 2 : network.nodeWeights[j] * clusterWeights[l]) * this.resolution
         if (qualityValueIncrement > maxQualityValueIncrement) {
           bestCluster = l
           maxQualityValueIncrement = qualityValueIncrement
@@ -184,6 +192,7 @@ export default class FastLocalMovingAlgorithm extends IterativeCPMClusteringAlgo
        * clustering statistics.
        */
       clusterWeights[bestCluster] += network.nodeWeights[j]
+      if (inNodeWeights) inClusterWeights[bestCluster] += inNodeWeights[j]
       nNodesPerCluster[bestCluster]++
       if (bestCluster === unusedClusters[nUnusedClusters - 1]) {
         nUnusedClusters--
@@ -241,7 +241,7 @@ export default class GradientDescentVOSLayoutAlgorithm extends VOSLayoutAlgorith
    * @return Layout
    */
   public findLayout (network: Network): Layout {
-    const layout = new Layout({ nNodes: network.getNNodes(), random: this.random } as LayoutConstructorParametersWithNNodesAndRandom)
+    const layout = new Layout({ nNodes: network.getNNodes(), random: this.random, useTypedArrays: network.usesTypedArrays() } as LayoutConstructorParametersWithNNodesAndRandom)
     this.improveLayout(network, layout)
     return layout
   }
@@ -37,7 +37,7 @@ export default abstract class IncrementalCPMClusteringAlgorithm extends CPMClust
    * @return Clustering
    */
   public findClustering (network: Network): Clustering {
-    const clustering = new Clustering({ nNodes: network.getNNodes() } as ClusteringParametersWithNNodes)
+    const clustering = new Clustering({ nNodes: network.getNNodes(), useTypedArrays: network.usesTypedArrays() } as ClusteringParametersWithNNodes)
     this.improveClustering(network, clustering)
     return clustering
   }
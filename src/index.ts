@@ -2,55 +2,113 @@
  * Provides data structures and algorithms for network analysis.
  *
  * The classes {@link Network}, {@link Clustering}, and {@link Layout}
- * represent the core data structures. The classes {@link LeidenAlgorithm} and
+ * represent the core data structures. The class {@link DirectedNetwork}
+ * represents directed networks. The classes {@link LeidenAlgorithm} and
  * {@link LouvainAlgorithm} represent the core algorithms for network
  * clustering. The class {@link GradientDescentVOSLayoutAlgorithm} represents
  * the core algorithm for network layout.
  *
  * @module
  */
-import Clustering, { ClusteringParametersWithClusters, ClusteringParametersWithNNodes } from './clustering'
+import AttributeTable, { AggregationMethod, AttributeColumn, AttributeType } from './attributeTable'
+import Clustering, { ClusteringJSON, ClusteringParametersWithClusters, ClusteringParametersWithNNodes } from './clustering'
+import BackboneExtractionAlgorithm, { BackboneExtractionResult } from './backboneExtractionAlgorithm'
+import BipartiteNetwork, { BipartiteClustering, BipartiteNetworkConstructorParameters, BipartiteNodeSet } from './bipartiteNetwork'
+import CentralityCalculator from './centralityCalculator'
 import ClusteringAlgorithm from './clusteringAlgorithm'
+import CoOccurrenceNetworkBuilder, { CoOccurrenceNetworkBuilderParameters, CountingMethod } from './coOccurrenceNetworkBuilder'
 import CPMClusteringAlgorithm from './CPMClusteringAlgorithm'
 import ComponentsAlgorithm from './componentsAlgorithm'
+import CoreDecompositionAlgorithm from './coreDecompositionAlgorithm'
+import DirectedNetwork, { DirectedNetworkConstructorParameters } from './directedNetwork'
 import FastLocalMovingAlgorithm from './fastLocalMovingAlgorithm'
 import GradientDescentVOSLayoutAlgorithm from './gradientDescentVOSLayoutAlgorithm'
 import IncrementalClusteringAlgorithm from './incrementalClusteringAlgorithm'
 import IncrementalCPMClusteringAlgorithm from './incrementalCPMClusteringAlgorithm'
 import IterativeCPMClusteringAlgorithm from './iterativeCPMClusteringAlgorithm'
-import Layout, { LayoutConstructorParametersWithCoordinates, LayoutConstructorParametersWithNNodes, LayoutConstructorParametersWithNNodesAndRandom } from './layout'
+import Layout, { LayoutJSON, LayoutConstructorParametersWithCoordinates, LayoutConstructorParametersWithNNodes, LayoutConstructorParametersWithNNodesAndRandom } from './layout'
 import LeidenAlgorithm from './leidenAlgorithm'
 import LocalMergingAlgorithm from './localMergingAlgorithm'
 import LouvainAlgorithm from './louvainAlgorithm'
-import Network, { NetworkConstructorParameters } from './network'
+import Network, { NetworkJSON, NetworkConstructorParameters } from './network'
+import NetworkBuilder, { DuplicateEdgePolicy, NetworkBuilderParameters, NetworkBuilderResult, SelfLinkPolicy } from './networkBuilder'
+import NetworkGenerator, { LFRBenchmarkParameters, NetworkWithGroundTruth } from './networkGenerator'
+import NetworkStatisticsCalculator, { DistributionStatistics, NetworkStatisticsReport } from './networkStatisticsCalculator'
 import QualityClusteringAlgorithm from './qualityClusteringAlgorithm'
 import QualityLayoutAlgorithm from './qualityLayoutAlgorithm'
+import QualityZScoreCalculator, { NullModel, QualityZScore } from './qualityZScoreCalculator'
+import SimilarityNetworkBuilder, { SimilarityMeasure, SimilarityNetworkBuilderParameters, SparseFeatureMatrix } from './similarityNetworkBuilder'
+import ShortestPathsCalculator, { EdgeWeightInterpretation, ShortestPathTree } from './shortestPathsCalculator'
 import StandardLocalMovingAlgorithm from './standardLocalMovingAlgorithm'
+import SubnetworkMapping, { SubnetworkWithMapping } from './subnetworkMapping'
 import VOSLayoutAlgorithm from './VOSLayoutAlgorithm'
 
 export {
+  AggregationMethod,
+  AttributeColumn,
+  AttributeTable,
+  AttributeType,
+  BackboneExtractionAlgorithm,
+  BackboneExtractionResult,
+  BipartiteClustering,
+  BipartiteNetwork,
+  BipartiteNetworkConstructorParameters,
+  BipartiteNodeSet,
+  CentralityCalculator,
   Clustering,
+  ClusteringJSON,
   ClusteringParametersWithClusters,
   ClusteringParametersWithNNodes,
   ClusteringAlgorithm,
+  CoOccurrenceNetworkBuilder,
+  CoOccurrenceNetworkBuilderParameters,
   CPMClusteringAlgorithm,
   ComponentsAlgorithm,
+  CoreDecompositionAlgorithm,
+  CountingMethod,
+  DistributionStatistics,
+  DuplicateEdgePolicy,
+  EdgeWeightInterpretation,
+  DirectedNetwork,
+  DirectedNetworkConstructorParameters,
   FastLocalMovingAlgorithm,
   GradientDescentVOSLayoutAlgorithm,
   IncrementalClusteringAlgorithm,
   IncrementalCPMClusteringAlgorithm,
   IterativeCPMClusteringAlgorithm,
   Layout,
+  LayoutJSON,
   LayoutConstructorParametersWithCoordinates,
   LayoutConstructorParametersWithNNodes,
   LayoutConstructorParametersWithNNodesAndRandom,
   LeidenAlgorithm,
+  LFRBenchmarkParameters,
   LocalMergingAlgorithm,
   LouvainAlgorithm,
   Network,
+  NetworkJSON,
   NetworkConstructorParameters,
+  NetworkBuilder,
+  NetworkBuilderParameters,
+  NetworkBuilderResult,
+  NetworkGenerator,
+  NetworkStatisticsCalculator,
+  NetworkStatisticsReport,
+  NetworkWithGroundTruth,
+  NullModel,
   QualityClusteringAlgorithm,
   QualityLayoutAlgorithm,
+  QualityZScore,
+  QualityZScoreCalculator,
+  SelfLinkPolicy,
+  ShortestPathsCalculator,
+  ShortestPathTree,
+  SimilarityMeasure,
+  SimilarityNetworkBuilder,
+  SimilarityNetworkBuilderParameters,
+  SparseFeatureMatrix,
   StandardLocalMovingAlgorithm,
+  SubnetworkMapping,
+  SubnetworkWithMapping,
   VOSLayoutAlgorithm,
 }
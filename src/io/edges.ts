@@ -0,0 +1,81 @@
+import Network from '../network'
+
+/**
+ * Undirected edge between two nodes.
+ */
+export interface Edge {
+  /**
+   * First node of the edge.
+   */
+  node1: number
+
+  /**
+   * Second node of the edge.
+   */
+  node2: number
+
+  /**
+   * Weight of the edge.
+   */
+  weight: number
+}
+
+/**
+ * Creates a network based on a list of undirected edges.
+ *
+ * If an edge is included more than once, for instance in both directions,
+ * only its first occurrence is used. If node weights are not specified, the
+ * node weights are set to the total edge weights.
+ *
+ * @param nNodes      Number of nodes
+ * @param edges       Edges
+ * @param nodeWeights Node weights
+ *
+ * @return Network
+ */
+export function createNetworkFromEdges (nNodes: number, edges: Edge[], nodeWeights?: number[]): Network {
+  const edgeKeys = new Set<string>()
+  const edges2 = [new Array<number>(0), new Array<number>(0)]
+  const edgeWeights = new Array<number>(0)
+  edges.forEach(edge => {
+    const edgeKey = edge.node1 < edge.node2 ? `${edge.node1}-${edge.node2}` : `${edge.node2}-${edge.node1}`
+    if (!edgeKeys.has(edgeKey)) {
+      edgeKeys.add(edgeKey)
+      edges2[0].push(edge.node1)
+      edges2[1].push(edge.node2)
+      edgeWeights.push(edge.weight)
+    }
+  })
+
+  return new Network({
+    nNodes: nNodes,
+    nodeWeights: nodeWeights,
+    setNodeWeightsToTotalEdgeWeights: true,
+    edges: edges2,
+    edgeWeights: edgeWeights,
+    sortedEdges: false,
+    checkIntegrity: true,
+  })
+}
+
+/**
+ * Returns the edges of a network.
+ *
+ * Each edge is included only once, with the lowest node as first node. Edges
+ * are ordered by their first node and then by their second node.
+ *
+ * @param network Network
+ *
+ * @return Edges
+ */
+export function getEdges (network: Network): Edge[] {
+  const edges: Edge[] = []
+  for (let i = 0; i < network.nNodes; i++) {
+    for (let j = network.firstNeighborIndices[i]; j < network.firstNeighborIndices[i + 1]; j++) {
+      if (network.neighbors[j] > i) {
+        edges.push({ node1: i, node2: network.neighbors[j], weight: network.edgeWeights[j] })
+      }
+    }
+  }
+  return edges
+}
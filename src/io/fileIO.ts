@@ -0,0 +1,216 @@
+import Clustering, { ClusteringParametersWithClusters } from '../clustering'
+import Layout, { LayoutConstructorParametersWithCoordinates } from '../layout'
+import Network from '../network'
+import { getEdges } from './edges'
+import { COLUMN_SEPARATOR, splitLines, parseNode, parseNumber } from './textParsing'
+
+/**
+ * Reads a network from an edge list.
+ *
+ * Each line of the edge list consists of two or three tab-separated columns.
+ * The first two columns contain the nodes connected by an edge. Nodes are
+ * represented by zero-based integers. The optional third column contains the
+ * weight of the edge. Each edge must be included only once, either in one
+ * direction or in both directions. If an edge is included in both directions,
+ * only its first occurrence is used. The number of nodes equals the highest
+ * node in the edge list plus one.
+ *
+ * The node weights of the network are set to the total edge weights.
+ *
+ * @param edgeList       Content of the edge list
+ * @param useWeights     Indicates whether to use the edge weights in the
+ *                       third column
+ * @param sortedEdgeList Indicates whether the edge list is sorted and
+ *                       includes each edge in both directions
+ *
+ * @return Network
+ *
+ * @throws The edge list has an incorrect format.
+ */
+export function readEdgeList (edgeList: string, useWeights = true, sortedEdgeList = false): Network {
+  const lines = splitLines(edgeList)
+  const edges = [new Array<number>(0), new Array<number>(0)]
+  const edgeWeights = useWeights ? new Array<number>(0) : undefined
+  const edgeKeys = new Set<string>()
+  let nNodes = 0
+  lines.forEach(({ lineNumber, columns }) => {
+    if (columns.length < 2 || columns.length > 3) {
+      throw new Error(`Incorrect number of columns (line ${lineNumber}).`)
+    }
+    const node1 = parseNode(columns[0], lineNumber)
+    const node2 = parseNode(columns[1], lineNumber)
+    const weight = columns.length === 3 ? parseNumber(columns[2], lineNumber) : 1
+    nNodes = Math.max(nNodes, node1 + 1, node2 + 1)
+    if (!sortedEdgeList) {
+      if (node1 !== node2 && edgeKeys.has(`${node2}-${node1}`)) {
+        return
+      }
+      edgeKeys.add(`${node1}-${node2}`)
+    }
+    edges[0].push(node1)
+    edges[1].push(node2)
+    edgeWeights?.push(weight)
+  })
+
+  return new Network({
+    nNodes: nNodes,
+    setNodeWeightsToTotalEdgeWeights: true,
+    edges: edges,
+    edgeWeights: edgeWeights,
+    sortedEdges: sortedEdgeList,
+    checkIntegrity: true,
+  })
+}
+
+/**
+ * Writes a network to an edge list.
+ *
+ * Each edge is written only once, with the lowest node in the first column.
+ * If `useWeights = true`, the edge weights are written in the third column.
+ *
+ * Edges between a node and itself are not written.
+ *
+ * @param network    Network
+ * @param useWeights Indicates whether to write the edge weights
+ *
+ * @return Content of the edge list
+ */
+export function writeEdgeList (network: Network, useWeights = true): string {
+  return getEdges(network).map(edge => `${useWeights ? [edge.node1, edge.node2, edge.weight].join(COLUMN_SEPARATOR) : [edge.node1, edge.node2].join(COLUMN_SEPARATOR)}\n`).join('')
+}
+
+/**
+ * Reads a clustering from a node-to-cluster file.
+ *
+ * Each line of the file consists of two tab-separated columns. The first
+ * column contains a node and the second column contains the cluster of the
+ * node. Nodes and clusters are represented by zero-based integers. Each node
+ * must be included exactly once.
+ *
+ * @param clustering Content of the node-to-cluster file
+ * @param nNodes     Number of nodes. If not specified, the number of nodes
+ *                   equals the highest node in the file plus one.
+ *
+ * @return Clustering
+ *
+ * @throws The node-to-cluster file has an incorrect format.
+ */
+export function readClustering (clustering: string, nNodes?: number): Clustering {
+  const lines = splitLines(clustering)
+  const nodes = new Array<number>(lines.length)
+  const clusters = new Array<number>(lines.length)
+  lines.forEach(({ lineNumber, columns }, i) => {
+    if (columns.length !== 2) {
+      throw new Error(`Incorrect number of columns (line ${lineNumber}).`)
+    }
+    nodes[i] = parseNode(columns[0], lineNumber)
+    clusters[i] = parseNode(columns[1], lineNumber)
+  })
+
+  const clustersPerNode = createValuesPerNode(nodes, nNodes)
+  nodes.forEach((node, i) => {
+    checkDuplicateNode(clustersPerNode, node)
+    clustersPerNode[node] = clusters[i]
+  })
+  checkValuesPerNode(clustersPerNode)
+
+  return new Clustering({ clusters: clustersPerNode } as ClusteringParametersWithClusters)
+}
+
+/**
+ * Writes a clustering to a node-to-cluster file.
+ *
+ * @param clustering Clustering
+ *
+ * @return Content of the node-to-cluster file
+ */
+export function writeClustering (clustering: Clustering): string {
+  const lines = new Array<string>(clustering.getNNodes())
+  for (let i = 0; i < clustering.getNNodes(); i++) {
+    lines[i] = `${i}${COLUMN_SEPARATOR}${clustering.clusters[i]}\n`
+  }
+  return lines.join('')
+}
+
+/**
+ * Reads a layout from a node-to-coordinates file.
+ *
+ * Each line of the file consists of three tab-separated columns. The first
+ * column contains a node and the second and third column contain the
+ * horizontal and vertical coordinate of the node. Nodes are represented by
+ * zero-based integers. Each node must be included exactly once.
+ *
+ * @param layout Content of the node-to-coordinates file
+ * @param nNodes Number of nodes. If not specified, the number of nodes equals
+ *               the highest node in the file plus one.
+ *
+ * @return Layout
+ *
+ * @throws The node-to-coordinates file has an incorrect format.
+ */
+export function readLayout (layout: string, nNodes?: number): Layout {
+  const lines = splitLines(layout)
+  const nodes = new Array<number>(lines.length)
+  const coordinates = [new Array<number>(lines.length), new Array<number>(lines.length)]
+  lines.forEach(({ lineNumber, columns }, i) => {
+    if (columns.length !== 3) {
+      throw new Error(`Incorrect number of columns (line ${lineNumber}).`)
+    }
+    nodes[i] = parseNode(columns[0], lineNumber)
+    coordinates[0][i] = parseNumber(columns[1], lineNumber)
+    coordinates[1][i] = parseNumber(columns[2], lineNumber)
+  })
+
+  const coordinatesPerNode = [createValuesPerNode(nodes, nNodes), createValuesPerNode(nodes, nNodes)]
+  nodes.forEach((node, i) => {
+    checkDuplicateNode(coordinatesPerNode[0], node)
+    coordinatesPerNode[0][node] = coordinates[0][i]
+    coordinatesPerNode[1][node] = coordinates[1][i]
+  })
+  checkValuesPerNode(coordinatesPerNode[0])
+
+  return new Layout({ coordinates: coordinatesPerNode } as LayoutConstructorParametersWithCoordinates)
+}
+
+/**
+ * Writes a layout to a node-to-coordinates file.
+ *
+ * @param layout Layout
+ *
+ * @return Content of the node-to-coordinates file
+ */
+export function writeLayout (layout: Layout): string {
+  const lines = new Array<string>(layout.getNNodes())
+  for (let i = 0; i < layout.getNNodes(); i++) {
+    lines[i] = `${i}${COLUMN_SEPARATOR}${layout.coordinates[0][i]}${COLUMN_SEPARATOR}${layout.coordinates[1][i]}\n`
+  }
+  return lines.join('')
+}
+
+function createValuesPerNode (nodes: number[], nNodes?: number): number[] {
+  let nNodes2 = 0
+  nodes.forEach(node => {
+    nNodes2 = Math.max(nNodes2, node + 1)
+  })
+  if (nNodes !== undefined) {
+    if (nNodes2 > nNodes) {
+      throw new Error(`Node ${nNodes2 - 1} must be less than the number of nodes.`)
+    }
+    nNodes2 = nNodes
+  }
+  return new Array<number>(nNodes2).fill(NaN)
+}
+
+function checkDuplicateNode (valuesPerNode: number[], node: number): void {
+  if (!Number.isNaN(valuesPerNode[node])) {
+    throw new Error(`Node ${node} must not be included more than once.`)
+  }
+}
+
+function checkValuesPerNode (valuesPerNode: number[]): void {
+  for (let i = 0; i < valuesPerNode.length; i++) {
+    if (Number.isNaN(valuesPerNode[i])) {
+      throw new Error(`Node ${i} is missing.`)
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import Clustering, { ClusteringParametersWithClusters } from '../clustering'
+import Layout, { LayoutConstructorParametersWithCoordinates } from '../layout'
+import Network from '../network'
+import { Edge, createNetworkFromEdges, getEdges } from './edges'
+import { XMLElement, parseXML, escapeXML, getLocalName, getChildren, getDescendants } from './xml'
+
+/**
+ * Interface for the data in a GEXF file.
+ */
+export interface GEXFData {
+  /**
+   * Network.
+   */
+  network: Network
+
+  /**
+   * Clustering of the nodes.
+   */
+  clustering?: Clustering
+
+  /**
+   * Layout of the nodes.
+   */
+  layout?: Layout
+
+  /**
+   * GEXF ID of each node. If not specified, node `i` has ID `i`.
+   */
+  ids?: string[]
+
+  /**
+   * Label of each node.
+   */
+  labels?: string[]
+}
+
+/**
+ * Reads a GEXF file.
+ *
+ * The network is read from the nodes and edges of the graph in the file.
+ * Edges are treated as undirected edges. If an edge is included more than
+ * once, for instance in both directions, only its first occurrence is used.
+ * Edges without a `weight` attribute have a weight of 1. If all nodes have a
+ * `viz:size` element, the node weights are set to the sizes of the nodes.
+ * Otherwise the node weights are set to the total edge weights.
+ *
+ * A layout is created if all nodes have a `viz:position` element. A
+ * clustering is created if all nodes have a value for the node attribute
+ * titled `cluster` or for the modularity class attribute created by Gephi.
+ * Cluster values must be non-negative integers.
+ *
+ * @param gexf Content of the GEXF file
+ *
+ * @return GEXF data
+ *
+ * @throws The GEXF file has an incorrect format.
+ */
+export function readGEXF (gexf: string): GEXFData {
+  const root = parseXML(gexf)
+  const graph = getLocalName(root) === 'gexf' ? getChildren(root, 'graph')[0] : undefined
+  if (graph === undefined) {
+    throw new Error('GEXF file must contain a <graph> element in a <gexf> root element.')
+  }
+
+  const clusterAttributeIds = new Set<string>()
+  getChildren(graph, 'attributes').filter(attributes => attributes.attributes.class === 'node').forEach(attributes => {
+    getChildren(attributes, 'attribute').forEach(attribute => {
+      const title = (attribute.attributes.title ?? '').toLowerCase()
+      if (title === 'cluster' || title === 'modularity class' || attribute.attributes.id === 'modularity_class') {
+        clusterAttributeIds.add(attribute.attributes.id)
+      }
+    })
+  })
+
+  const nodeElements = getDescendants(graph, 'node')
+  const ids = new Array<string>(nodeElements.length)
+  const labels = new Array<string>(nodeElements.length)
+  const sizes = new Array<number | undefined>(nodeElements.length)
+  const positions = [new Array<number | undefined>(nodeElements.length), new Array<number | undefined>(nodeElements.length)]
+  const clusters = new Array<number | undefined>(nodeElements.length)
+  const idToIndex = new Map<string, number>()
+  nodeElements.forEach((nodeElement, i) => {
+    const id = nodeElement.attributes.id
+    if (id === undefined) {
+      throw new Error('Each node in GEXF file must have an ID.')
+    }
+    if (idToIndex.has(id)) {
+      throw new Error(`Node ${id} must not be included more than once in GEXF file.`)
+    }
+    idToIndex.set(id, i)
+    ids[i] = id
+    labels[i] = nodeElement.attributes.label ?? id
+    const size = getChildren(nodeElement, 'size')[0]
+    sizes[i] = size !== undefined ? readNumber(size, 'value') : undefined
+    const position = getChildren(nodeElement, 'position')[0]
+    positions[0][i] = position !== undefined ? readNumber(position, 'x') : undefined
+    positions[1][i] = position !== undefined ? readNumber(position, 'y') : undefined
+    getChildren(nodeElement, 'attvalues').forEach(attvalues => getChildren(attvalues, 'attvalue').forEach(attvalue => {
+      if (clusterAttributeIds.has(attvalue.attributes.for ?? attvalue.attributes.id)) {
+        const cluster = readNumber(attvalue, 'value')
+        if (!Number.isInteger(cluster) || cluster < 0) {
+          throw new Error(`Cluster of node ${id} must be a non-negative integer in GEXF file.`)
+        }
+        clusters[i] = cluster
+      }
+    }))
+  })
+
+  const edges = getDescendants(graph, 'edge').map<Edge>(edgeElement => {
+    const node1 = idToIndex.get(edgeElement.attributes.source)
+    const node2 = idToIndex.get(edgeElement.attributes.target)
+    if (node1 === undefined || node2 === undefined) {
+      throw new Error(`Edge between nodes ${edgeElement.attributes.source} and ${edgeElement.attributes.target} refers to an unknown node in GEXF file.`)
+    }
+    return { node1, node2, weight: edgeElement.attributes.weight !== undefined ? readNumber(edgeElement, 'weight') : 1 }
+  })
+
+  const data: GEXFData = {
+    network: createNetworkFromEdges(nodeElements.length, edges, isComplete(sizes) ? sizes : undefined),
+    ids,
+    labels,
+  }
+  if (isComplete(positions[0]) && isComplete(positions[1])) {
+    data.layout = new Layout({ coordinates: [positions[0], positions[1]] } as LayoutConstructorParametersWithCoordinates)
+  }
+  if (isComplete(clusters)) {
+    data.clustering = new Clustering({ clusters } as ClusteringParametersWithClusters)
+  }
+  return data
+}
+
+/**
+ * Writes a network to a GEXF 1.3 file.
+ *
+ * The network is written as a static undirected graph. Each edge is written
+ * only once, together with its weight. The weight of each node is written as
+ * the size of the node in a `viz:size` element. If a layout is provided, the
+ * coordinates of each node are written as the position of the node in a
+ * `viz:position` element. If a clustering is provided, the cluster of each
+ * node is written as the value of an integer node attribute titled `cluster`.
+ *
+ * @param data GEXF data
+ *
+ * @return Content of the GEXF file
+ */
+export function writeGEXF (data: GEXFData): string {
+  const network = data.network
+  const ids = data.ids ?? [...Array(network.nNodes).keys()].map(i => `${i}`)
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://gexf.net/1.3 http://gexf.net/1.3/gexf.xsd" version="1.3">',
+    '  <graph mode="static" defaultedgetype="undirected">',
+  ]
+  if (data.clustering) {
+    lines.push('    <attributes class="node" mode="static">')
+    lines.push('      <attribute id="cluster" title="cluster" type="integer"/>')
+    lines.push('    </attributes>')
+  }
+  lines.push('    <nodes>')
+  for (let i = 0; i < network.nNodes; i++) {
+    const label = data.labels ? ` label="${escapeXML(data.labels[i])}"` : ''
+    lines.push(`      <node id="${escapeXML(ids[i])}"${label}>`)
+    if (data.clustering) {
+      lines.push(`        <attvalues><attvalue for="cluster" value="${data.clustering.clusters[i]}"/></attvalues>`)
+    }
+    lines.push(`        <viz:size value="${network.nodeWeights[i]}"/>`)
+    if (data.layout) {
+      lines.push(`        <viz:position x="${data.layout.coordinates[0][i]}" y="${data.layout.coordinates[1][i]}" z="0"/>`)
+    }
+    lines.push('      </node>')
+  }
+  lines.push('    </nodes>')
+  lines.push('    <edges>')
+  getEdges(network).forEach((edge, i) => {
+    lines.push(`      <edge id="${i}" source="${escapeXML(ids[edge.node1])}" target="${escapeXML(ids[edge.node2])}" weight="${edge.weight}"/>`)
+  })
+  lines.push('    </edges>')
+  lines.push('  </graph>')
+  lines.push('</gexf>')
+  return lines.map(line => `${line}\n`).join('')
+}
+
+function readNumber (element: XMLElement, attribute: string): number {
+  const value = element.attributes[attribute]
+  const number = Number(value)
+  if (value === undefined || value.trim().length === 0 || !Number.isFinite(number)) {
+    throw new Error(`Attribute ${attribute} of <${element.name}> element must be a number in GEXF file.`)
+  }
+  return number
+}
+
+function isComplete (values: (number | undefined)[]): values is number[] {
+  return values.length > 0 && values.every(value => value !== undefined)
+}
@@ -0,0 +1,171 @@
+import type { Node, Link } from '../run/types'
+import { XMLElement, parseXML, escapeXML, getLocalName, getChildren, getDescendants, getTextContent } from './xml'
+
+/**
+ * Attribute key declared in a GraphML document.
+ */
+interface GraphMLKey {
+  name: string
+  defaultValue?: string
+  nodeGraphics: boolean
+}
+
+/**
+ * Reads nodes and links from a GraphML document.
+ *
+ * All nodes and edges in the document are read, including nodes and edges in
+ * nested graphs. The ID of a node is taken from its `id` attribute. The label
+ * of a node is taken from the node attribute named `label`, or from the node
+ * label of a yEd node graphics attribute. The weight of a link is taken from
+ * the edge attribute named `weight`. The node attributes named `x`, `y`, and
+ * `cluster` are read as well, so that a document written by
+ * {@link writeGraphML} provides an initial layout and clustering. Attribute
+ * names are case-insensitive. Other attributes are ignored.
+ *
+ * Edges are treated as undirected links.
+ *
+ * @param graphML Content of the GraphML document
+ *
+ * @return Nodes and links
+ *
+ * @throws The GraphML document has an incorrect format.
+ */
+export function readGraphML (graphML: string): { nodes: Node[], links: Link[] } {
+  const root = parseXML(graphML)
+  if (getLocalName(root) !== 'graphml') {
+    throw new Error('Root element of GraphML document must be <graphml>.')
+  }
+
+  const nodeKeys: { [id: string]: GraphMLKey } = {}
+  const edgeKeys: { [id: string]: GraphMLKey } = {}
+  getChildren(root, 'key').forEach(key => {
+    const graphMLKey: GraphMLKey = {
+      name: (key.attributes['attr.name'] ?? '').toLowerCase(),
+      defaultValue: getChildren(key, 'default').map(defaultElement => getTextContent(defaultElement).trim())[0],
+      nodeGraphics: key.attributes['yfiles.type'] === 'nodegraphics',
+    }
+    const domain = key.attributes.for ?? 'all'
+    if (domain === 'node' || domain === 'all') nodeKeys[key.attributes.id] = graphMLKey
+    if (domain === 'edge' || domain === 'all') edgeKeys[key.attributes.id] = graphMLKey
+  })
+
+  const nodes: Node[] = []
+  const nodeById: { [id: string]: Node } = {}
+  getDescendants(root, 'node').forEach(nodeElement => {
+    const id = nodeElement.attributes.id
+    if (id === undefined) {
+      throw new Error('Each node in GraphML document must have an ID.')
+    }
+    if (nodeById[id]) {
+      throw new Error(`Node ${id} must not be included more than once in GraphML document.`)
+    }
+    const values = readData(nodeElement, nodeKeys)
+    const node: Node = { id }
+    if (values.label !== undefined) node.label = values.label
+    if (isNumeric(values.x) && isNumeric(values.y)) {
+      node.x = Number(values.x)
+      node.y = Number(values.y)
+    }
+    if (isNumeric(values.cluster)) node.cluster = Number(values.cluster)
+    nodes.push(node)
+    nodeById[id] = node
+  })
+
+  const links = getDescendants(root, 'edge').map(edgeElement => {
+    const node1 = nodeById[edgeElement.attributes.source]
+    const node2 = nodeById[edgeElement.attributes.target]
+    if (!node1 || !node2) {
+      throw new Error(`Edge between nodes ${edgeElement.attributes.source} and ${edgeElement.attributes.target} refers to an unknown node in GraphML document.`)
+    }
+    const values = readData(edgeElement, edgeKeys)
+    const link: Link = { node1, node2 }
+    if (values.weight !== undefined) {
+      if (!isNumeric(values.weight)) {
+        throw new Error(`Weight of edge between nodes ${node1.id} and ${node2.id} must be a number in GraphML document.`)
+      }
+      link.weight = Number(values.weight)
+    }
+    return link
+  })
+
+  return { nodes, links }
+}
+
+/**
+ * Writes nodes and links to a GraphML document.
+ *
+ * The label, cluster, and coordinates of the nodes are written as node
+ * attributes named `label`, `cluster`, `x`, and `y`. The weights of the links
+ * are written as edge attribute named `weight`. Attributes are written only
+ * if they are specified for at least one node or link.
+ *
+ * @param nodes Nodes
+ * @param links Links
+ *
+ * @return Content of the GraphML document
+ */
+export function writeGraphML (nodes: Node[], links: Link[]): string {
+  const hasLabels = nodes.some(node => node.label !== undefined)
+  const hasClusters = nodes.some(node => node.cluster !== undefined)
+  const hasCoordinates = nodes.some(node => node.x !== undefined && node.y !== undefined)
+  const hasWeights = links.some(link => link.weight !== undefined)
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+  ]
+  if (hasLabels) lines.push('  <key id="label" for="node" attr.name="label" attr.type="string"/>')
+  if (hasClusters) lines.push('  <key id="cluster" for="node" attr.name="cluster" attr.type="int"/>')
+  if (hasCoordinates) {
+    lines.push('  <key id="x" for="node" attr.name="x" attr.type="double"/>')
+    lines.push('  <key id="y" for="node" attr.name="y" attr.type="double"/>')
+  }
+  if (hasWeights) lines.push('  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>')
+  lines.push('  <graph id="G" edgedefault="undirected">')
+  nodes.forEach(node => {
+    const data: string[] = []
+    if (node.label !== undefined) data.push(writeData('label', node.label))
+    if (node.cluster !== undefined) data.push(writeData('cluster', node.cluster))
+    if (node.x !== undefined && node.y !== undefined) data.push(writeData('x', node.x), writeData('y', node.y))
+    lines.push(writeElement('node', `id="${escapeXML(node.id)}"`, data))
+  })
+  links.forEach(link => {
+    const data = link.weight !== undefined ? [writeData('weight', link.weight)] : []
+    lines.push(writeElement('edge', `source="${escapeXML(link.node1.id)}" target="${escapeXML(link.node2.id)}"`, data))
+  })
+  lines.push('  </graph>')
+  lines.push('</graphml>')
+  return lines.map(line => `${line}\n`).join('')
+}
+
+function readData (element: XMLElement, keys: { [id: string]: GraphMLKey }): { [name: string]: string } {
+  const values: { [name: string]: string } = {}
+  Object.keys(keys).forEach(id => {
+    const defaultValue = keys[id].defaultValue
+    if (defaultValue !== undefined) values[keys[id].name] = defaultValue
+  })
+  getChildren(element, 'data').forEach(data => {
+    const key = keys[data.attributes.key]
+    if (key !== undefined) {
+      if (key.nodeGraphics) {
+        const nodeLabels = getDescendants(data, 'NodeLabel')
+        if (nodeLabels.length > 0) values.label = getTextContent(nodeLabels[0]).trim()
+      } else {
+        values[key.name] = getTextContent(data).trim()
+      }
+    }
+  })
+  return values
+}
+
+function writeData (key: string, value: string | number): string {
+  return `<data key="${key}">${escapeXML(value)}</data>`
+}
+
+function writeElement (name: string, attributes: string, data: string[]): string {
+  return data.length > 0 ? `    <${name} ${attributes}>${data.join('')}</${name}>` : `    <${name} ${attributes}/>`
+}
+
+function isNumeric (value: string | undefined): value is string {
+  return value !== undefined && value.length > 0 && Number.isFinite(Number(value))
+}
@@ -0,0 +1,38 @@
+/**
+ * Provides functions for reading and writing networks, clusterings, and
+ * layouts.
+ *
+ * @module
+ */
+import { readEdgeList, writeEdgeList, readClustering, writeClustering, readLayout, writeLayout } from './fileIO'
+import { GEXFData, readGEXF, writeGEXF } from './gexf'
+import { readGraphML, writeGraphML } from './graphML'
+import { PajekData, readPajekNetwork, writePajekNetwork, readPajekPartition, writePajekPartition, readPajekVector, writePajekVector } from './pajek'
+import { VOSviewerData, readVOSviewerFiles, writeVOSviewerMapFile, writeVOSviewerNetworkFile, readVOSviewerJSON, writeVOSviewerJSON } from './vosviewer'
+
+export {
+  readEdgeList,
+  writeEdgeList,
+  readClustering,
+  writeClustering,
+  readLayout,
+  writeLayout,
+  readGraphML,
+  writeGraphML,
+  GEXFData,
+  readGEXF,
+  writeGEXF,
+  PajekData,
+  readPajekNetwork,
+  writePajekNetwork,
+  readPajekPartition,
+  writePajekPartition,
+  readPajekVector,
+  writePajekVector,
+  VOSviewerData,
+  readVOSviewerFiles,
+  writeVOSviewerMapFile,
+  writeVOSviewerNetworkFile,
+  readVOSviewerJSON,
+  writeVOSviewerJSON,
+}
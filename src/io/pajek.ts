@@ -0,0 +1,269 @@
+import Clustering, { ClusteringParametersWithClusters } from '../clustering'
+import Layout, { LayoutConstructorParametersWithCoordinates } from '../layout'
+import Network, { NetworkConstructorParameters } from '../network'
+import { copyToArray } from '../utils/arrays'
+import { getEdges } from './edges'
+import { Line, parseInteger, parseNumber } from './textParsing'
+
+/**
+ * Interface for the data in a Pajek network file.
+ */
+export interface PajekData {
+  /**
+   * Network.
+   */
+  network: Network
+
+  /**
+   * Label of each vertex.
+   */
+  labels?: string[]
+
+  /**
+   * Layout of the vertices.
+   */
+  layout?: Layout
+}
+
+/**
+ * Reads a Pajek network file (.net).
+ *
+ * The `*Vertices` section provides the number of vertices and, optionally,
+ * the label and the coordinates of each vertex. Vertices are numbered from 1,
+ * while nodes in the network are numbered from 0. Vertices that are not
+ * listed get their number as label. The `*Edges` and `*Arcs` sections provide
+ * the weighted lines between the vertices, one line per row. The
+ * `*Edgeslist` and `*Arcslist` sections provide for each vertex a list of
+ * neighbors, and the `*Matrix` section provides a full adjacency matrix.
+ *
+ * Arcs are treated as undirected edges, and the weights of arcs in opposite
+ * directions are summed. If a line is included more than once, only its first
+ * occurrence is used. The entries of a matrix are treated as edges, so a
+ * matrix is assumed to be symmetric. Lines without a weight have a weight of
+ * 1. The node weights of the network are set to the total edge weights.
+ *
+ * A layout is created if the coordinates of all vertices are provided.
+ *
+ * @param net Content of the network file
+ *
+ * @return Pajek data
+ *
+ * @throws The network file has an incorrect format.
+ */
+export function readPajekNetwork (net: string): PajekData {
+  let nVertices = -1
+  let labels = new Array<string>(0)
+  let coordinates = [new Array<number>(0), new Array<number>(0)]
+  let section = ''
+  let matrixRow = 0
+  const lineKeys = new Set<string>()
+  const edgeIndices = new Map<string, number>()
+  const edges = [new Array<number>(0), new Array<number>(0)]
+  const edgeWeights = new Array<number>(0)
+
+  const addEdge = (vertex1: number, vertex2: number, weight: number, arc: boolean): void => {
+    const edgeKey = vertex1 < vertex2 ? `${vertex1}-${vertex2}` : `${vertex2}-${vertex1}`
+    const lineKey = arc ? `arc ${vertex1}-${vertex2}` : `edge ${edgeKey}`
+    if (lineKeys.has(lineKey)) {
+      return
+    }
+    lineKeys.add(lineKey)
+    const edgeIndex = edgeIndices.get(edgeKey)
+    if (edgeIndex === undefined) {
+      edgeIndices.set(edgeKey, edgeWeights.length)
+      edges[0].push(vertex1 - 1)
+      edges[1].push(vertex2 - 1)
+      edgeWeights.push(weight)
+    } else {
+      edgeWeights[edgeIndex] += weight
+    }
+  }
+
+  readLines(net).forEach(({ lineNumber, columns }) => {
+    if (columns[0].startsWith('*')) {
+      section = columns[0].toLowerCase()
+      if (section === '*vertices') {
+        nVertices = parseInteger(columns[1] ?? '', lineNumber, 0, 'Number of vertices')
+        labels = [...Array(nVertices).keys()].map(i => `${i + 1}`)
+        coordinates = [new Array<number>(nVertices).fill(NaN), new Array<number>(nVertices).fill(NaN)]
+      } else if (['*edges', '*arcs', '*edgeslist', '*arcslist', '*matrix'].includes(section)) {
+        if (nVertices < 0) {
+          throw new Error(`Section ${columns[0]} must be preceded by a *Vertices section (line ${lineNumber}).`)
+        }
+        matrixRow = 0
+      }
+      return
+    }
+
+    if (section === '*vertices') {
+      const vertex = parseVertex(columns[0], lineNumber, nVertices)
+      if (columns.length > 1) {
+        labels[vertex - 1] = unquote(columns[1])
+      }
+      if (columns.length > 3) {
+        coordinates[0][vertex - 1] = parseNumber(columns[2], lineNumber)
+        coordinates[1][vertex - 1] = parseNumber(columns[3], lineNumber)
+      }
+    } else if (section === '*edges' || section === '*arcs') {
+      if (columns.length < 2) {
+        throw new Error(`Incorrect number of columns (line ${lineNumber}).`)
+      }
+      addEdge(parseVertex(columns[0], lineNumber, nVertices), parseVertex(columns[1], lineNumber, nVertices), columns.length > 2 ? parseNumber(columns[2], lineNumber) : 1, section === '*arcs')
+    } else if (section === '*edgeslist' || section === '*arcslist') {
+      const vertex = parseVertex(columns[0], lineNumber, nVertices)
+      columns.slice(1).forEach(column => addEdge(vertex, parseVertex(column, lineNumber, nVertices), 1, section === '*arcslist'))
+    } else if (section === '*matrix') {
+      if (matrixRow >= nVertices || columns.length !== nVertices) {
+        throw new Error(`Incorrect size of matrix (line ${lineNumber}).`)
+      }
+      columns.forEach((column, i) => {
+        const weight = parseNumber(column, lineNumber)
+        if (weight !== 0) addEdge(matrixRow + 1, i + 1, weight, false)
+      })
+      matrixRow++
+    }
+  })
+
+  if (nVertices < 0) {
+    throw new Error('Network file must contain a *Vertices section.')
+  }
+
+  const data: PajekData = {
+    network: new Network({
+      nNodes: nVertices,
+      setNodeWeightsToTotalEdgeWeights: true,
+      edges: edges,
+      edgeWeights: edgeWeights,
+      sortedEdges: false,
+      checkIntegrity: true,
+    } as NetworkConstructorParameters),
+    labels,
+  }
+  if (nVertices > 0 && !coordinates[0].some(coordinate => Number.isNaN(coordinate))) {
+    data.layout = new Layout({ coordinates } as LayoutConstructorParametersWithCoordinates)
+  }
+  return data
+}
+
+/**
+ * Writes a network to a Pajek network file (.net).
+ *
+ * The vertices are written in a `*Vertices` section, together with their
+ * labels and, if a layout is provided, their coordinates. Each edge is
+ * written only once in an `*Edges` section, together with its weight.
+ *
+ * @param data Pajek data
+ *
+ * @return Content of the network file
+ */
+export function writePajekNetwork (data: PajekData): string {
+  const network = data.network
+  const lines = [`*Vertices ${network.nNodes}`]
+  for (let i = 0; i < network.nNodes; i++) {
+    const label = data.labels ? data.labels[i] : `${i + 1}`
+    const coordinates = data.layout ? ` ${data.layout.coordinates[0][i]} ${data.layout.coordinates[1][i]}` : ''
+    lines.push(`${i + 1} "${label.replace(/"/g, '\'')}"${coordinates}`)
+  }
+  lines.push('*Edges')
+  getEdges(network).forEach(edge => {
+    lines.push(`${edge.node1 + 1} ${edge.node2 + 1} ${edge.weight}`)
+  })
+  return lines.map(line => `${line}\n`).join('')
+}
+
+/**
+ * Reads a Pajek partition file (.clu).
+ *
+ * After the `*Vertices` line, the file contains the class of each vertex, one
+ * vertex per line. Classes must be non-negative integers. Class `c` in the
+ * partition corresponds with cluster `c` in the clustering.
+ *
+ * @param clu Content of the partition file
+ *
+ * @return Clustering
+ *
+ * @throws The partition file has an incorrect format.
+ */
+export function readPajekPartition (clu: string): Clustering {
+  const clusters = readValues(clu, (value, lineNumber) => parseInteger(value, lineNumber, 0, 'Class'))
+  return new Clustering({ clusters } as ClusteringParametersWithClusters)
+}
+
+/**
+ * Writes a clustering to a Pajek partition file (.clu).
+ *
+ * @param clustering Clustering
+ *
+ * @return Content of the partition file
+ */
+export function writePajekPartition (clustering: Clustering): string {
+  return writeValues(copyToArray(clustering.clusters))
+}
+
+/**
+ * Reads a Pajek vector file (.vec).
+ *
+ * After the `*Vertices` line, the file contains the value of each vertex, one
+ * vertex per line.
+ *
+ * @param vec Content of the vector file
+ *
+ * @return Value of each vertex
+ *
+ * @throws The vector file has an incorrect format.
+ */
+export function readPajekVector (vec: string): number[] {
+  return readValues(vec, parseNumber)
+}
+
+/**
+ * Writes values to a Pajek vector file (.vec).
+ *
+ * A layout can be written to two vector files, one for each dimension.
+ *
+ * @param values Value of each vertex
+ *
+ * @return Content of the vector file
+ */
+export function writePajekVector (values: number[]): string {
+  return writeValues(values)
+}
+
+function readLines (content: string): Line[] {
+  const lines: Line[] = []
+  content.split(/\r?\n/).forEach((line, i) => {
+    const columns = line.match(/"[^"]*"|\S+/g) ?? []
+    if (columns.length > 0 && !columns[0].startsWith('%')) {
+      lines.push({ lineNumber: i + 1, columns })
+    }
+  })
+  return lines
+}
+
+function readValues (content: string, parseValue: (value: string, lineNumber: number) => number): number[] {
+  const lines = readLines(content)
+  if (lines.length === 0 || lines[0].columns[0].toLowerCase() !== '*vertices') {
+    throw new Error('File must start with a *Vertices line.')
+  }
+  const nVertices = parseInteger(lines[0].columns[1] ?? '', lines[0].lineNumber, 0, 'Number of vertices')
+  if (lines.length - 1 !== nVertices) {
+    throw new Error(`File must contain ${nVertices} values.`)
+  }
+  return lines.slice(1).map(({ lineNumber, columns }) => parseValue(columns[0], lineNumber))
+}
+
+function writeValues (values: number[]): string {
+  return [`*Vertices ${values.length}`, ...values].map(line => `${line}\n`).join('')
+}
+
+function parseVertex (value: string, lineNumber: number, nVertices: number): number {
+  const vertex = parseInteger(value, lineNumber, 1, 'Vertex')
+  if (vertex > nVertices) {
+    throw new Error(`Vertex must not be greater than the number of vertices (line ${lineNumber}).`)
+  }
+  return vertex
+}
+
+function unquote (value: string): string {
+  return (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) ? value.slice(1, -1) : value
+}
@@ -0,0 +1,93 @@
+/**
+ * Column separator used in tab-separated files.
+ */
+export const COLUMN_SEPARATOR = '\t'
+
+/**
+ * Line of a text file split into columns.
+ */
+export interface Line {
+  /**
+   * One-based line number.
+   */
+  lineNumber: number
+
+  /**
+   * Columns of the line.
+   */
+  columns: string[]
+}
+
+/**
+ * Splits the content of a text file into lines and columns.
+ *
+ * Empty lines are ignored.
+ *
+ * @param content   Content of a text file
+ * @param separator Column separator, or function splitting a line into
+ *                  columns
+ *
+ * @return Lines
+ */
+export function splitLines (content: string, separator: string | RegExp | ((line: string) => string[]) = COLUMN_SEPARATOR): Line[] {
+  const lines: Line[] = []
+  content.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim().length > 0) {
+      lines.push({ lineNumber: i + 1, columns: typeof separator === 'function' ? separator(line) : line.split(separator) })
+    }
+  })
+  return lines
+}
+
+/**
+ * Parses a node represented by a zero-based integer.
+ *
+ * @param value      Value
+ * @param lineNumber Line number
+ *
+ * @return Node
+ *
+ * @throws The value is not a non-negative integer.
+ */
+export function parseNode (value: string, lineNumber: number): number {
+  return parseInteger(value, lineNumber, 0, 'Node')
+}
+
+/**
+ * Parses an integer that must be greater than or equal to a minimum value.
+ *
+ * @param value      Value
+ * @param lineNumber Line number
+ * @param minValue   Minimum value
+ * @param name       Name of the value used in error messages
+ *
+ * @return Integer
+ *
+ * @throws The value is not an integer greater than or equal to the minimum
+ *         value.
+ */
+export function parseInteger (value: string, lineNumber: number, minValue: number, name = 'Value'): number {
+  const integer = Number(value)
+  if (value.trim().length === 0 || !Number.isInteger(integer) || integer < minValue) {
+    throw new Error(`${name} must be an integer greater than or equal to ${minValue} (line ${lineNumber}).`)
+  }
+  return integer
+}
+
+/**
+ * Parses a finite number.
+ *
+ * @param value      Value
+ * @param lineNumber Line number
+ *
+ * @return Number
+ *
+ * @throws The value is not a finite number.
+ */
+export function parseNumber (value: string, lineNumber: number): number {
+  const number = Number(value)
+  if (value.trim().length === 0 || !Number.isFinite(number)) {
+    throw new Error(`Value must be a number (line ${lineNumber}).`)
+  }
+  return number
+}
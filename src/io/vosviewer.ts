@@ -0,0 +1,397 @@
+import Clustering, { ClusteringParametersWithClusters } from '../clustering'
+import Layout, { LayoutConstructorParametersWithCoordinates } from '../layout'
+import Network from '../network'
+import { createNetworkFromEdges, getEdges } from './edges'
+import { COLUMN_SEPARATOR, Line, splitLines, parseInteger, parseNumber } from './textParsing'
+
+/**
+ * Interface for the data in a VOSviewer map file, network file, or JSON file.
+ *
+ * Item `i` in VOSviewer corresponds with node `i` in the network, the
+ * clustering, and the layout.
+ */
+export interface VOSviewerData {
+  /**
+   * VOSviewer ID of each item. IDs are positive integers. If not specified,
+   * item `i` has ID `i + 1`.
+   */
+  ids?: number[]
+
+  /**
+   * Label of each item.
+   */
+  labels?: string[]
+
+  /**
+   * Network of links between the items.
+   */
+  network?: Network
+
+  /**
+   * Clustering of the items.
+   *
+   * Cluster `c` in the clustering corresponds with cluster `c + 1` in
+   * VOSviewer.
+   */
+  clustering?: Clustering
+
+  /**
+   * Layout of the items.
+   */
+  layout?: Layout
+
+  /**
+   * Weight attributes of the items. For each weight attribute, the weight of
+   * each item is provided.
+   */
+  weights?: { [name: string]: number[] }
+
+  /**
+   * Score attributes of the items. For each score attribute, the score of
+   * each item is provided.
+   */
+  scores?: { [name: string]: number[] }
+}
+
+/**
+ * Item in a VOSviewer JSON file.
+ */
+interface VOSviewerJSONItem {
+  id: number
+  label?: string
+  x?: number
+  y?: number
+  cluster?: number
+  weights?: { [name: string]: number }
+  scores?: { [name: string]: number }
+}
+
+/**
+ * Link in a VOSviewer JSON file.
+ */
+interface VOSviewerJSONLink {
+  /* eslint-disable camelcase */
+  source_id: number
+  target_id: number
+  /* eslint-enable camelcase */
+  strength?: number
+}
+
+/**
+ * Reads a VOSviewer map file and a VOSviewer network file.
+ *
+ * The map file is a tab-separated file with a header line. The columns `id`,
+ * `label`, `x`, `y`, and `cluster` are recognized, as well as columns
+ * `weight<name>` and `score<name>` providing weight and score attributes. A
+ * column `weight` or `score` provides an attribute named `Weight` or `Score`.
+ * Other columns are ignored. Values may be enclosed in double quotes, in which
+ * case they may contain tabs, and double quotes within them are doubled.
+ * Double quotes in values that do not start with a double quote are read
+ * literally.
+ *
+ * The network file is a tab-separated file without a header line. Each line
+ * contains the IDs of two items and, optionally, the strength of the link
+ * between the items. If a link is included more than once, for instance in
+ * both directions, only its first occurrence is used. If no map file is
+ * provided, the items are the IDs in the network file in increasing order.
+ *
+ * The node weights of the network are set to the total edge weights.
+ *
+ * @param mapFile     Content of the map file
+ * @param networkFile Content of the network file
+ *
+ * @return VOSviewer data
+ *
+ * @throws The map file or the network file has an incorrect format.
+ */
+export function readVOSviewerFiles (mapFile?: string, networkFile?: string): VOSviewerData {
+  const data = mapFile !== undefined ? readMapFile(mapFile) : { ids: new Array<number>(0) }
+  if (networkFile !== undefined) {
+    const lines = splitLines(networkFile)
+    const links = lines.map(({ lineNumber, columns }) => {
+      if (columns.length < 2 || columns.length > 3) {
+        throw new Error(`Incorrect number of columns (line ${lineNumber}).`)
+      }
+      return {
+        source_id: parseInteger(columns[0], lineNumber, 1, 'ID'),
+        target_id: parseInteger(columns[1], lineNumber, 1, 'ID'),
+        strength: columns.length === 3 ? parseNumber(columns[2], lineNumber) : 1,
+      }
+    })
+    if (mapFile === undefined) {
+      const ids = new Set<number>()
+      links.forEach(link => {
+        ids.add(link.source_id)
+        ids.add(link.target_id)
+      })
+      data.ids = [...ids].sort((a, b) => a - b)
+    }
+    data.network = createNetwork(data.ids as number[], links)
+  }
+  return data
+}
+
+/**
+ * Writes the items to a VOSviewer map file.
+ *
+ * Labels are enclosed in double quotes, and double quotes within them are
+ * doubled.
+ *
+ * @param data VOSviewer data
+ *
+ * @return Content of the map file
+ */
+export function writeVOSviewerMapFile (data: VOSviewerData): string {
+  const nItems = getNItems(data)
+  const ids = getIds(data, nItems)
+  const weights = data.weights ?? {}
+  const scores = data.scores ?? {}
+
+  const header = ['id']
+  if (data.labels) header.push('label')
+  if (data.layout) header.push('x', 'y')
+  if (data.clustering) header.push('cluster')
+  Object.keys(weights).forEach(name => header.push(`weight<${name}>`))
+  Object.keys(scores).forEach(name => header.push(`score<${name}>`))
+
+  const lines = new Array<string>(nItems + 1)
+  lines[0] = header.join(COLUMN_SEPARATOR)
+  for (let i = 0; i < nItems; i++) {
+    const columns: (string | number)[] = [ids[i]]
+    if (data.labels) columns.push(quote(data.labels[i]))
+    if (data.layout) columns.push(data.layout.coordinates[0][i], data.layout.coordinates[1][i])
+    if (data.clustering) columns.push(data.clustering.clusters[i] + 1)
+    Object.keys(weights).forEach(name => columns.push(weights[name][i]))
+    Object.keys(scores).forEach(name => columns.push(scores[name][i]))
+    lines[i + 1] = columns.join(COLUMN_SEPARATOR)
+  }
+  return lines.map(line => `${line}\n`).join('')
+}
+
+/**
+ * Writes the links between the items to a VOSviewer network file.
+ *
+ * Each link is written only once.
+ *
+ * @param data VOSviewer data
+ *
+ * @return Content of the network file
+ *
+ * @throws The data does not include a network.
+ */
+export function writeVOSviewerNetworkFile (data: VOSviewerData): string {
+  return createLinks(data).map(link => `${link.source_id}${COLUMN_SEPARATOR}${link.target_id}${COLUMN_SEPARATOR}${link.strength}\n`).join('')
+}
+
+/**
+ * Reads a VOSviewer JSON file.
+ *
+ * The items and links are read from the `network` property of the JSON file.
+ * Weight and score attributes are read from the `weights` and `scores`
+ * properties of the items. A clustering and a layout are created only if all
+ * items have a cluster and coordinates, respectively. If a link is included
+ * more than once, for instance in both directions, only its first occurrence
+ * is used.
+ *
+ * The node weights of the network are set to the total edge weights.
+ *
+ * @param json Content of the JSON file
+ *
+ * @return VOSviewer data
+ *
+ * @throws The JSON file has an incorrect format.
+ */
+export function readVOSviewerJSON (json: string): VOSviewerData {
+  const content = JSON.parse(json)
+  if (!content || !content.network || !Array.isArray(content.network.items)) {
+    throw new Error('JSON file must contain a network with items.')
+  }
+  const items = content.network.items as VOSviewerJSONItem[]
+  const links = (content.network.links ?? []) as VOSviewerJSONLink[]
+
+  const data: VOSviewerData = { ids: items.map(item => item.id) }
+  if (items.some(item => item.label !== undefined)) {
+    data.labels = items.map(item => item.label ?? '')
+  }
+  if (items.length > 0 && items.every(item => item.x !== undefined && item.y !== undefined)) {
+    data.layout = new Layout({ coordinates: [items.map(item => Number(item.x)), items.map(item => Number(item.y))] } as LayoutConstructorParametersWithCoordinates)
+  }
+  if (items.length > 0 && items.every(item => item.cluster !== undefined)) {
+    data.clustering = new Clustering({ clusters: items.map(item => Number(item.cluster) - 1) } as ClusteringParametersWithClusters)
+  }
+  data.weights = readJSONAttributes(items, item => item.weights)
+  data.scores = readJSONAttributes(items, item => item.scores)
+  data.network = createNetwork(data.ids as number[], links)
+  return data
+}
+
+/**
+ * Writes the items and the links between the items to a VOSviewer JSON file.
+ *
+ * @param data VOSviewer data
+ *
+ * @return Content of the JSON file
+ */
+export function writeVOSviewerJSON (data: VOSviewerData): string {
+  const nItems = getNItems(data)
+  const ids = getIds(data, nItems)
+  const items = new Array<VOSviewerJSONItem>(nItems)
+  for (let i = 0; i < nItems; i++) {
+    const item: VOSviewerJSONItem = { id: ids[i] }
+    if (data.labels) item.label = data.labels[i]
+    if (data.layout) {
+      item.x = data.layout.coordinates[0][i]
+      item.y = data.layout.coordinates[1][i]
+    }
+    if (data.clustering) item.cluster = data.clustering.clusters[i] + 1
+    if (data.weights && Object.keys(data.weights).length > 0) item.weights = writeJSONAttributes(data.weights, i)
+    if (data.scores && Object.keys(data.scores).length > 0) item.scores = writeJSONAttributes(data.scores, i)
+    items[i] = item
+  }
+  const links = data.network ? createLinks(data) : []
+  return JSON.stringify({ network: { items, links } }, null, 2)
+}
+
+function readMapFile (mapFile: string): VOSviewerData {
+  const lines = splitLines(mapFile, splitQuotedColumns)
+  if (lines.length === 0) {
+    throw new Error('Map file must contain a header line.')
+  }
+  const header = lines[0].columns.map(column => unquote(column).trim())
+  const itemLines = lines.slice(1)
+  const findColumn = (name: string): number => header.findIndex(column => column.toLowerCase() === name)
+
+  itemLines.forEach(({ lineNumber, columns }) => {
+    if (columns.length > header.length) {
+      throw new Error(`Incorrect number of columns (line ${lineNumber}).`)
+    }
+  })
+
+  const idColumn = findColumn('id')
+  const data: VOSviewerData = {
+    ids: idColumn >= 0 ? itemLines.map(({ lineNumber, columns }) => parseInteger(getColumn(columns, idColumn), lineNumber, 1, 'ID')) : itemLines.map((line, i) => i + 1),
+  }
+  const labelColumn = findColumn('label')
+  if (labelColumn >= 0) {
+    data.labels = itemLines.map(({ columns }) => unquote(getColumn(columns, labelColumn)))
+  }
+  const xColumn = findColumn('x')
+  const yColumn = findColumn('y')
+  if (xColumn >= 0 && yColumn >= 0) {
+    data.layout = new Layout({ coordinates: [readNumberColumn(itemLines, xColumn), readNumberColumn(itemLines, yColumn)] } as LayoutConstructorParametersWithCoordinates)
+  }
+  const clusterColumn = findColumn('cluster')
+  if (clusterColumn >= 0) {
+    data.clustering = new Clustering({ clusters: itemLines.map(({ lineNumber, columns }) => parseInteger(getColumn(columns, clusterColumn), lineNumber, 1, 'Cluster') - 1) } as ClusteringParametersWithClusters)
+  }
+  data.weights = {}
+  data.scores = {}
+  header.forEach((column, i) => {
+    const match = /^(weight|score)(?:<(.*)>)?$/i.exec(column)
+    if (match) {
+      const isWeight = match[1].toLowerCase() === 'weight'
+      const name = match[2] ?? (isWeight ? 'Weight' : 'Score')
+      const attributes = isWeight ? data.weights as { [name: string]: number[] } : data.scores as { [name: string]: number[] }
+      attributes[name] = readNumberColumn(itemLines, i)
+    }
+  })
+  return data
+}
+
+function readNumberColumn (lines: Line[], column: number): number[] {
+  return lines.map(({ lineNumber, columns }) => parseNumber(getColumn(columns, column), lineNumber))
+}
+
+function getColumn (columns: string[], column: number): string {
+  return column < columns.length ? columns[column] : ''
+}
+
+function splitQuotedColumns (line: string): string[] {
+  // A column enclosed in double quotes may contain tabs and doubled double
+  // quotes. Double quotes elsewhere in a column are treated literally.
+  const columns: string[] = []
+  let begin = 0
+  let end: number
+  do {
+    let i = begin
+    if (line[begin] === '"') {
+      i++
+      while (i < line.length && (line[i] !== '"' || line[i + 1] === '"')) {
+        i += line[i] === '"' ? 2 : 1
+      }
+    }
+    end = line.indexOf(COLUMN_SEPARATOR, i)
+    columns.push(line.slice(begin, end >= 0 ? end : line.length))
+    begin = end + 1
+  } while (end >= 0)
+  return columns
+}
+
+function quote (value: string): string {
+  return `"${value.replace(/"/g, '""')}"`
+}
+
+function unquote (value: string): string {
+  return (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) ? value.slice(1, -1).replace(/""/g, '"') : value
+}
+
+function readJSONAttributes (items: VOSviewerJSONItem[], getAttributes: (item: VOSviewerJSONItem) => { [name: string]: number } | undefined): { [name: string]: number[] } {
+  const attributes: { [name: string]: number[] } = {}
+  items.forEach((item, i) => {
+    const itemAttributes = getAttributes(item) ?? {}
+    Object.keys(itemAttributes).forEach(name => {
+      if (!attributes[name]) attributes[name] = new Array<number>(items.length).fill(0)
+      attributes[name][i] = Number(itemAttributes[name])
+    })
+  })
+  return attributes
+}
+
+function writeJSONAttributes (attributes: { [name: string]: number[] }, item: number): { [name: string]: number } {
+  const itemAttributes: { [name: string]: number } = {}
+  Object.keys(attributes).forEach(name => {
+    itemAttributes[name] = attributes[name][item]
+  })
+  return itemAttributes
+}
+
+function createNetwork (ids: number[], links: VOSviewerJSONLink[]): Network {
+  const idToIndex = new Map<number, number>()
+  ids.forEach((id, i) => {
+    if (idToIndex.has(id)) {
+      throw new Error(`ID ${id} must not be included more than once.`)
+    }
+    idToIndex.set(id, i)
+  })
+
+  return createNetworkFromEdges(ids.length, links.map(link => {
+    const node1 = idToIndex.get(link.source_id)
+    const node2 = idToIndex.get(link.target_id)
+    if (node1 === undefined || node2 === undefined) {
+      throw new Error(`Link between IDs ${link.source_id} and ${link.target_id} refers to an unknown item.`)
+    }
+    return { node1, node2, weight: link.strength ?? 1 }
+  }))
+}
+
+function createLinks (data: VOSviewerData): VOSviewerJSONLink[] {
+  const network = data.network
+  if (!network) {
+    throw new Error('Data must include a network.')
+  }
+  const ids = getIds(data, network.nNodes)
+  return getEdges(network).map(edge => ({ source_id: ids[edge.node1], target_id: ids[edge.node2], strength: edge.weight }))
+}
+
+function getNItems (data: VOSviewerData): number {
+  if (data.ids) return data.ids.length
+  if (data.labels) return data.labels.length
+  if (data.network) return data.network.getNNodes()
+  if (data.clustering) return data.clustering.getNNodes()
+  if (data.layout) return data.layout.getNNodes()
+  return 0
+}
+
+function getIds (data: VOSviewerData, nItems: number): number[] {
+  return data.ids ?? [...Array(nItems).keys()].map(i => i + 1)
+}
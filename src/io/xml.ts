@@ -0,0 +1,208 @@
+/**
+ * Element in an XML document.
+ */
+export interface XMLElement {
+  /**
+   * Name of the element, including a namespace prefix if there is one.
+   */
+  name: string
+
+  /**
+   * Attributes of the element.
+   */
+  attributes: { [name: string]: string }
+
+  /**
+   * Child elements of the element.
+   */
+  children: XMLElement[]
+
+  /**
+   * Text content of the element, excluding the text content of child
+   * elements.
+   */
+  text: string
+}
+
+const XML_ENTITIES: { [name: string]: string } = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: '\'',
+}
+
+/**
+ * Parses an XML document.
+ *
+ * Only the elements, attributes, and text content of the document are
+ * parsed. Comments, processing instructions, and document type declarations
+ * are ignored. Namespaces are not resolved.
+ *
+ * @param xml Content of the XML document
+ *
+ * @return Root element of the document
+ *
+ * @throws The document is not well-formed.
+ */
+export function parseXML (xml: string): XMLElement {
+  const document: XMLElement = { name: '', attributes: {}, children: [], text: '' }
+  const stack = [document]
+  let i = 0
+  while (i < xml.length) {
+    const j = xml.indexOf('<', i)
+    if (j < 0) {
+      stack[stack.length - 1].text += decodeXML(xml.slice(i))
+      break
+    }
+    if (j > i) {
+      stack[stack.length - 1].text += decodeXML(xml.slice(i, j))
+    }
+    if (xml.startsWith('<!--', j)) {
+      i = findEnd(xml, '-->', j)
+    } else if (xml.startsWith('<![CDATA[', j)) {
+      i = findEnd(xml, ']]>', j)
+      stack[stack.length - 1].text += xml.slice(j + 9, i - 3)
+    } else if (xml.startsWith('<?', j)) {
+      i = findEnd(xml, '?>', j)
+    } else if (xml.startsWith('<!', j)) {
+      const k = xml.indexOf('[', j)
+      const l = xml.indexOf('>', j)
+      i = (k >= 0 && k < l) ? findEnd(xml, ']>', k) : findEnd(xml, '>', j)
+    } else if (xml.startsWith('</', j)) {
+      i = findEnd(xml, '>', j)
+      const name = xml.slice(j + 2, i - 1).trim()
+      const element = stack.pop()
+      if (stack.length === 0 || element === undefined || element.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}> in XML document.`)
+      }
+    } else {
+      i = findEndOfTag(xml, j)
+      const selfClosing = xml[i - 2] === '/'
+      const tag = xml.slice(j + 1, selfClosing ? i - 2 : i - 1)
+      const match = /^([^\s/>]+)/.exec(tag)
+      if (!match) {
+        throw new Error('Element without a name in XML document.')
+      }
+      const element: XMLElement = { name: match[1], attributes: {}, children: [], text: '' }
+      const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+      let attribute: RegExpExecArray | null
+      while ((attribute = attributePattern.exec(tag.slice(match[1].length))) !== null) {
+        element.attributes[attribute[1]] = decodeXML(attribute[2] ?? attribute[3])
+      }
+      stack[stack.length - 1].children.push(element)
+      if (!selfClosing) {
+        stack.push(element)
+      }
+    }
+  }
+  if (stack.length > 1) {
+    throw new Error(`Missing closing tag </${stack[stack.length - 1].name}> in XML document.`)
+  }
+  if (document.children.length !== 1) {
+    throw new Error('XML document must have exactly one root element.')
+  }
+  return document.children[0]
+}
+
+/**
+ * Returns the name of an element without its namespace prefix.
+ *
+ * @param element Element
+ *
+ * @return Local name
+ */
+export function getLocalName (element: XMLElement): string {
+  return element.name.slice(element.name.indexOf(':') + 1)
+}
+
+/**
+ * Returns the child elements with a specified local name.
+ *
+ * @param element   Element
+ * @param localName Local name
+ *
+ * @return Child elements
+ */
+export function getChildren (element: XMLElement, localName: string): XMLElement[] {
+  return element.children.filter(child => getLocalName(child) === localName)
+}
+
+/**
+ * Returns the descendant elements with a specified local name.
+ *
+ * Descendants of matching elements are searched as well.
+ *
+ * @param element   Element
+ * @param localName Local name
+ *
+ * @return Descendant elements in document order
+ */
+export function getDescendants (element: XMLElement, localName: string): XMLElement[] {
+  const descendants: XMLElement[] = []
+  element.children.forEach(child => {
+    if (getLocalName(child) === localName) {
+      descendants.push(child)
+    }
+    descendants.push(...getDescendants(child, localName))
+  })
+  return descendants
+}
+
+/**
+ * Returns the text content of an element, including the text content of its
+ * descendants.
+ *
+ * @param element Element
+ *
+ * @return Text content
+ */
+export function getTextContent (element: XMLElement): string {
+  return element.text + element.children.map(child => getTextContent(child)).join('')
+}
+
+/**
+ * Escapes the special characters in a value so that it can be used as text
+ * content or attribute value in an XML document.
+ *
+ * @param value Value
+ *
+ * @return Escaped value
+ */
+export function escapeXML (value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function decodeXML (value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|lt|gt|amp|quot|apos);/g, (entity, name: string) => {
+    if (name[0] !== '#') return XML_ENTITIES[name]
+    return String.fromCodePoint(name[1] === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10))
+  })
+}
+
+function findEnd (xml: string, delimiter: string, fromIndex: number): number {
+  const i = xml.indexOf(delimiter, fromIndex)
+  if (i < 0) {
+    throw new Error(`Missing '${delimiter}' in XML document.`)
+  }
+  return i + delimiter.length
+}
+
+function findEndOfTag (xml: string, fromIndex: number): number {
+  let quote: string | undefined
+  for (let i = fromIndex + 1; i < xml.length; i++) {
+    if (quote !== undefined) {
+      if (xml[i] === quote) quote = undefined
+    } else if (xml[i] === '"' || xml[i] === '\'') {
+      quote = xml[i]
+    } else if (xml[i] === '>') {
+      return i + 1
+    }
+  }
+  throw new Error('Missing \'>\' in XML document.')
+}
@@ -1,5 +1,7 @@
 import Random from 'java-random'
-import { calcAverage, calcMedian, calcMinimum, calcMaximum } from './utils/arrays'
+import { DoubleArray, calcAverage, calcMedian, calcMinimum, calcMaximum, createDoubleArray, convertDoubleArray, copyToArray } from './utils/arrays'
+import { BINARY_HEADER_LENGTH, createBinary, readBinaryHeader, checkBinaryLength, readDoubleArray } from './utils/binary'
+import { JSON_VERSION, parseJSON, checkJSONVersion, checkJSONNumberArray } from './utils/json'
 
 /**
  * Interface for specifying the number of nodes when constructing a layout.
@@ -9,6 +11,11 @@ export interface LayoutConstructorParametersWithNNodes {
    * Number of nodes.
    */
   nNodes: number
+
+  /**
+   * Indicates whether to store the layout in typed arrays.
+   */
+  useTypedArrays?: boolean
 }
 
 /**
@@ -25,6 +32,11 @@ export interface LayoutConstructorParametersWithNNodesAndRandom {
    * Random number generator.
    */
   random: Random
+
+  /**
+   * Indicates whether to store the layout in typed arrays.
+   */
+  useTypedArrays?: boolean
 }
 
 /**
@@ -32,20 +44,45 @@ export interface LayoutConstructorParametersWithNNodesAndRandom {
  * layout.
  */
 export interface LayoutConstructorParametersWithCoordinates {
+  /**
+   * Coordinates of each node.
+   */
+  coordinates: DoubleArray[]
+
+  /**
+   * Indicates whether to store the layout in typed arrays.
+   */
+  useTypedArrays?: boolean
+}
+
+/**
+ * Interface for the JSON representation of a layout.
+ */
+export interface LayoutJSON {
+  /**
+   * Version of the JSON representation.
+   */
+  version: number
+
   /**
    * Coordinates of each node.
    */
   coordinates: number[][]
 }
 
+const LAYOUT_BINARY_IDENTIFIER = 'NALY'
+
 /**
  * Layout of the nodes in a network.
+ *
+ * The coordinates are stored either in plain arrays or, if requested when
+ * constructing the layout, in typed arrays.
  */
 export default class Layout {
   /**
    * Coordinates of each node.
    */
-  public coordinates!: number[][]
+  public coordinates!: DoubleArray[]
 
   /**
    * Number of nodes.
@@ -68,6 +105,55 @@ export default class Layout {
       const layoutParameters = parameters as LayoutConstructorParametersWithCoordinates
       this.initializeBasedOnCoordinates(layoutParameters.coordinates)
     }
+    if (this.coordinates !== undefined) {
+      this.coordinates[0] = convertDoubleArray(this.coordinates[0], parameters.useTypedArrays === true)
+      this.coordinates[1] = convertDoubleArray(this.coordinates[1], parameters.useTypedArrays === true)
+    }
+  }
+
+  /**
+   * Creates a layout from its JSON representation.
+   *
+   * @param json JSON representation, either as object or as string
+   *
+   * @return Layout
+   *
+   * @throws The JSON representation is not a valid representation of a layout.
+   */
+  public static fromJSON (json: LayoutJSON | string): Layout {
+    const layoutJSON = parseJSON(json)
+    checkJSONVersion(layoutJSON.version, 'layout')
+    if (!Array.isArray(layoutJSON.coordinates) || layoutJSON.coordinates.length !== 2) {
+      throw new Error('coordinates must be an array of two arrays.')
+    }
+    checkJSONNumberArray(layoutJSON.coordinates[0], 'First element of coordinates array')
+    checkJSONNumberArray(layoutJSON.coordinates[1], 'Second element of coordinates array')
+    if (layoutJSON.coordinates[0].length !== layoutJSON.coordinates[1].length) {
+      throw new Error('Elements of coordinates array must have the same length.')
+    }
+
+    return new Layout({ coordinates: layoutJSON.coordinates } as LayoutConstructorParametersWithCoordinates)
+  }
+
+  /**
+   * Creates a layout from its binary representation.
+   *
+   * @param binary         Binary representation, either as buffer or as view
+   * @param useTypedArrays Indicates whether to store the layout in typed arrays
+   *
+   * @return Layout
+   *
+   * @throws The binary representation is not a valid representation of a layout.
+   */
+  public static fromBinary (binary: ArrayBuffer | ArrayBufferView, useTypedArrays = true): Layout {
+    const { buffer, headerValues: [nNodes] } = readBinaryHeader(binary, LAYOUT_BINARY_IDENTIFIER, 'layout')
+    checkBinaryLength(buffer, BINARY_HEADER_LENGTH + 16 * nNodes, 'layout')
+
+    const layout = new Layout({ coordinates: [[], []] } as LayoutConstructorParametersWithCoordinates)
+    layout.nNodes = nNodes
+    layout.coordinates[0] = readDoubleArray(buffer, BINARY_HEADER_LENGTH, nNodes, useTypedArrays)
+    layout.coordinates[1] = readDoubleArray(buffer, BINARY_HEADER_LENGTH + 8 * nNodes, nNodes, useTypedArrays)
+    return layout
   }
 
   /**
@@ -87,9 +173,9 @@ export default class Layout {
    */
   public initializeBasedOnNNodesAndRandom (nNodes: number, random: Random): void {
     this.nNodes = nNodes
-    this.coordinates = new Array<Array<number>>(2)
-    this.coordinates[0] = new Array<number>(nNodes)
-    this.coordinates[1] = new Array<number>(nNodes)
+    this.coordinates = new Array<DoubleArray>(2)
+    this.coordinates[0] = createDoubleArray(nNodes)
+    this.coordinates[1] = createDoubleArray(nNodes)
     this.initRandomCoordinatesHelper(random)
   }
 
@@ -98,9 +184,9 @@ export default class Layout {
    *
    * @param coordinates Coordinates of each node
    */
-  public initializeBasedOnCoordinates (coordinates: number[][]): void {
+  public initializeBasedOnCoordinates (coordinates: DoubleArray[]): void {
     this.nNodes = coordinates[0].length
-    this.coordinates = new Array<Array<number>>(2)
+    this.coordinates = new Array<DoubleArray>(2)
     this.coordinates[0] = coordinates[0].slice()
     this.coordinates[1] = coordinates[1].slice()
   }
@@ -112,7 +198,7 @@ export default class Layout {
    */
   public clone (): Layout {
     const clonedLayout = new Layout({ nNodes: this.nNodes } as LayoutConstructorParametersWithNNodes)
-    clonedLayout.coordinates = new Array<Array<number>>(2)
+    clonedLayout.coordinates = new Array<DoubleArray>(2)
     clonedLayout.coordinates[0] = this.coordinates[0].slice()
     clonedLayout.coordinates[1] = this.coordinates[1].slice()
     return clonedLayout
@@ -134,8 +220,8 @@ export default class Layout {
    */
   public getCoordinates (): number[][] {
     const clonedCoordinates = new Array<Array<number>>(2)
-    clonedCoordinates[0] = this.coordinates[0].slice()
-    clonedCoordinates[1] = this.coordinates[1].slice()
+    clonedCoordinates[0] = copyToArray(this.coordinates[0])
+    clonedCoordinates[1] = copyToArray(this.coordinates[1])
     return clonedCoordinates
   }
 
@@ -195,6 +281,15 @@ export default class Layout {
     return averageDistance
   }
 
+  /**
+   * Indicates whether the layout is stored in typed arrays.
+   *
+   * @return Whether the layout is stored in typed arrays
+   */
+  public usesTypedArrays (): boolean {
+    return this.coordinates[0] instanceof Float64Array
+  }
+
   /**
    * Positions a node at coordinates.
    *
@@ -311,6 +406,36 @@ export default class Layout {
     }
   }
 
+  /**
+   * Returns the JSON representation of the layout.
+   *
+   * The JSON representation is also used by `JSON.stringify()`.
+   *
+   * @return JSON representation
+   */
+  public toJSON (): LayoutJSON {
+    return {
+      version: JSON_VERSION,
+      coordinates: [copyToArray(this.coordinates[0]), copyToArray(this.coordinates[1])],
+    }
+  }
+
+  /**
+   * Returns the binary representation of the layout.
+   *
+   * The binary representation consists of a header followed by sections with
+   * the first and the second coordinate of each node as 64-bit floating point
+   * numbers.
+   *
+   * @return Binary representation
+   */
+  public toBinary (): ArrayBuffer {
+    const buffer = createBinary(LAYOUT_BINARY_IDENTIFIER, BINARY_HEADER_LENGTH + 16 * this.nNodes, this.nNodes, 0)
+    new Float64Array(buffer, BINARY_HEADER_LENGTH, this.nNodes).set(this.coordinates[0])
+    new Float64Array(buffer, BINARY_HEADER_LENGTH + 8 * this.nNodes, this.nNodes).set(this.coordinates[1])
+    return buffer
+  }
+
   private initRandomCoordinatesHelper (random: Random): void {
     for (let i = 0; i < this.nNodes; i++) {
       this.coordinates[0][i] = 2 * random.nextDouble() - 1
@@ -22,6 +22,11 @@ import Network from './network'
  * These phases are repeated until no further improvements can be made. By
  * default, local moving of nodes is performed using the {@link
  * FastLocalMovingAlgorithm}.
+ *
+ * For a {@link DirectedNetwork}, the directed variant of the CPM quality
+ * function is optimized. Barber's bipartite modularity of a
+ * {@link BipartiteNetwork} is optimized by clustering the network created by
+ * {@link BipartiteNetwork.createNetworkForBipartiteModularity}.
  */
 export default class LeidenAlgorithm extends IterativeCPMClusteringAlgorithm {
   /**
@@ -196,7 +201,7 @@ export default class LeidenAlgorithm extends IterativeCPMClusteringAlgorithm {
       localMergingAlgorithm.initializeBasedOnResolutionAndRandomnessAndRandom(this.resolution, this.randomness, this.random)
       const subnetworks = network.createSubnetworks(clustering)
       const nodesPerCluster = clustering.getNodesPerCluster()
-      const refinement = new Clustering({ nNodes: network.nNodes } as ClusteringParametersWithNNodes)
+      const refinement = new Clustering({ nNodes: network.nNodes, useTypedArrays: network.usesTypedArrays() } as ClusteringParametersWithNNodes)
       refinement.nClusters = 0
       for (let i = 0; i < subnetworks.length; i++) {
         const clusteringSubnetwork = localMergingAlgorithm.findClustering(subnetworks[i])
@@ -220,7 +225,7 @@ export default class LeidenAlgorithm extends IterativeCPMClusteringAlgorithm {
          * Create an initial clustering for the aggregate network based
          * on the non-refined clustering of the non-aggregate network.
          */
-        clusteringReducedNetwork = new Clustering({ nNodes: refinement.nClusters } as ClusteringParametersWithNNodes)
+        clusteringReducedNetwork = new Clustering({ nNodes: refinement.nClusters, useTypedArrays: network.usesTypedArrays() } as ClusteringParametersWithNNodes)
         clusteringReducedNetwork.nClusters = clustering.nClusters
         for (let i = 0; i < network.nNodes; i++) {
           clusteringReducedNetwork.clusters[refinement.clusters[i]] = clustering.clusters[i]
@@ -239,7 +244,7 @@ export default class LeidenAlgorithm extends IterativeCPMClusteringAlgorithm {
          * of the non-aggregate network.
          */
         reducedNetwork = network.createReducedNetwork(clustering)
-        clusteringReducedNetwork = new Clustering({ nNodes: reducedNetwork.nNodes } as ClusteringParametersWithNNodes)
+        clusteringReducedNetwork = new Clustering({ nNodes: reducedNetwork.nNodes, useTypedArrays: reducedNetwork.usesTypedArrays() } as ClusteringParametersWithNNodes)
       }
       /*
        * Recursively apply the algorithm to the aggregate network,
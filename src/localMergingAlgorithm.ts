@@ -1,8 +1,9 @@
 import Random from 'java-random'
 import CPMClusteringAlgorithm from './CPMClusteringAlgorithm'
 import Clustering, { ClusteringParametersWithNNodes } from './clustering'
+import DirectedNetwork from './directedNetwork'
 import Network from './network'
-import { generateRandomPermutation } from './utils/arrays'
+import { calcSum, copyToArray, generateRandomPermutation, createIntegerArray, createDoubleArray } from './utils/arrays'
 import { fastExp } from './utils/fastMath'
 
 /**
@@ -125,7 +126,7 @@ export default class LocalMergingAlgorithm extends CPMClusteringAlgorithm {
    * @return Clustering
    */
   public findClustering (network: Network): Clustering {
-    const clustering = new Clustering({ nNodes: network.nNodes } as ClusteringParametersWithNNodes)
+    const clustering = new Clustering({ nNodes: network.nNodes, useTypedArrays: network.usesTypedArrays() } as ClusteringParametersWithNNodes)
 
     if (network.nNodes === 1) {
       return clustering
@@ -135,14 +136,17 @@ export default class LocalMergingAlgorithm extends CPMClusteringAlgorithm {
 
     const totalNodeWeight = network.getTotalNodeWeight()
     const clusterWeights = network.getNodeWeights()
+    const inNodeWeights = (network instanceof DirectedNetwork) ? network.inNodeWeights : undefined
+    const totalInNodeWeight = inNodeWeights ? calcSum(inNodeWeights) : 0
+    const inClusterWeights = inNodeWeights ? copyToArray(inNodeWeights) : []
     const nonSingletonClusters = new Array<boolean>(network.nNodes).fill(false)
     const externalEdgeWeightPerCluster = network.getTotalEdgeWeightPerNode()
 
     const nodeOrder = generateRandomPermutation(network.nNodes, this.random)
 
-    const edgeWeightPerCluster = new Array<number>(network.nNodes).fill(0)
-    const neighboringClusters = new Array<number>(network.nNodes).fill(0)
-    const cumTransformedQualityValueIncrementPerCluster = new Array<number>(network.nNodes).fill(0)
+    const edgeWeightPerCluster = createDoubleArray(network.nNodes, network.usesTypedArrays())
+    const neighboringClusters = createIntegerArray(network.nNodes, network.usesTypedArrays())
+    const cumTransformedQualityValueIncrementPerCluster = createDoubleArray(network.nNodes, network.usesTypedArrays())
     for (let i = 0; i < network.nNodes; i++) {
       const j = nodeOrder[i]
 
@@ -150,14 +154,17 @@ export default class LocalMergingAlgorithm extends CPMClusteringAlgorithm {
        * Only nodes belonging to singleton clusters can be moved to a
        * different cluster. This guarantees that clusters will never be
        * split up. Additionally, only nodes that are well connected with
-       * the rest of the network are considered for moving.
+       * the rest of the network are considered for moving. For a directed
+       * network, the out weight of a cluster is combined with the in
+       * weight of the rest of the network and the other way around.
        */
-      if (!nonSingletonClusters[j] && (externalEdgeWeightPerCluster[j] >= clusterWeights[j] * (totalNodeWeight - clusterWeights[j]) * this.resolution)) {
+      if (!nonSingletonClusters[j] && (externalEdgeWeightPerCluster[j] >= (inNodeWeights ? (clusterWeights[j] * (totalInNodeWeight - inClusterWeights[j]) + inClusterWeights[j] * (totalNodeWeight - clusterWeights[j])) / 2 : clusterWeights[j] * (totalNodeWeight - clusterWeights[j])) * this.resolution)) {
         /*
          * Remove the currently selected node from its current cluster.
          * This causes the cluster to be empty.
          */
         clusterWeights[j] = 0
+        if (inNodeWeights) inClusterWeights[j] = 0
         externalEdgeWeightPerCluster[j] = 0
 
         /*
@@ -198,8 +205,8 @@ export default class LocalMergingAlgorithm extends CPMClusteringAlgorithm {
         for (let k = 0; k < nNeighboringClusters; k++) {
           const l = neighboringClusters[k]
 
-          if (externalEdgeWeightPerCluster[l] >= clusterWeights[l] * (totalNodeWeight - clusterWeights[l]) * this.resolution) {
-            const qualityValueIncrement = edgeWeightPerCluster[l] - network.nodeWeights[j] * clusterWeights[l] * this.resolution
+          if (externalEdgeWeightPerCluster[l] >= (inNodeWeights ? (clusterWeights[l] * (totalInNodeWeight - inClusterWeights[l]) + inClusterWeights[l] * (totalNodeWeight - clusterWeights[l])) / 2 : clusterWeights[l] * (totalNodeWeight - clusterWeights[l])) * this.resolution) {
+            const qualityValueIncrement = edgeWeightPerCluster[l] - (inNodeWeights ? (network.nodeWeights[j] * inClusterWeights[l] + inNodeWeights[j] * clusterWeights[l]) / 2 : network.nodeWeights[j] * clusterWeights[l]) * this.resolution
 
             if (qualityValueIncrement > maxQualityValueIncrement) {
               bestCluster = l
@@ -243,6 +250,7 @@ export default class LocalMergingAlgorithm extends CPMClusteringAlgorithm {
          * update the clustering statistics.
          */
         clusterWeights[chosenCluster] += network.nodeWeights[j]
+        if (inNodeWeights) inClusterWeights[chosenCluster] += inNodeWeights[j]
 
         for (let k = network.firstNeighborIndices[j]; k < network.firstNeighborIndices[j + 1]; k++) {
           if (clustering.clusters[network.neighbors[k]] === chosenCluster) {
@@ -18,6 +18,11 @@ import Network from './network'
  * These phases are repeated until no further improvements can be made. By
  * default, local moving of nodes is performed using the {@link
  * StandardLocalMovingAlgorithm}.
+ *
+ * For a {@link DirectedNetwork}, the directed variant of the CPM quality
+ * function is optimized. Barber's bipartite modularity of a
+ * {@link BipartiteNetwork} is optimized by clustering the network created by
+ * {@link BipartiteNetwork.createNetworkForBipartiteModularity}.
  */
 export default class LouvainAlgorithm extends IterativeCPMClusteringAlgorithm {
   /**
@@ -151,7 +156,7 @@ export default class LouvainAlgorithm extends IterativeCPMClusteringAlgorithm {
          * Recursively apply the algorithm to the aggregate network,
          * starting from a singleton clustering.
          */
-      const reducedClustering = new Clustering({ nNodes: reducedNetwork.getNNodes() } as ClusteringParametersWithNNodes)
+      const reducedClustering = new Clustering({ nNodes: reducedNetwork.getNNodes(), useTypedArrays: reducedNetwork.usesTypedArrays() } as ClusteringParametersWithNNodes)
       const update2 = this.improveClusteringOneIteration(reducedNetwork, reducedClustering)
       update ||= update2
 
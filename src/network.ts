@@ -1,7 +1,13 @@
 import Random from 'java-random'
+import AttributeTable from './attributeTable'
 import ComponentsAlgorithm from './componentsAlgorithm'
+import CoreDecompositionAlgorithm from './coreDecompositionAlgorithm'
 import Clustering from './clustering'
-import { calcSum, calcSumWithinRange, createDoubleArrayOfRandomNumbers, binarySearch } from './utils/arrays'
+import SubnetworkMapping, { SubnetworkWithMapping } from './subnetworkMapping'
+import { IntegerArray, DoubleArray, calcSum, calcSumWithinRange, createIntegerArray, createDoubleArray, convertIntegerArray, convertDoubleArray, copyToArray, binarySearch } from './utils/arrays'
+import { BINARY_HEADER_LENGTH, createBinary, readBinaryHeader, checkBinaryLength, readDoubleArray, readIntegerArray } from './utils/binary'
+import { JSON_VERSION, parseJSON, checkJSONVersion, checkJSONNumber, checkJSONNumberArray } from './utils/json'
+import { matchStubs } from './utils/stubMatching'
 
 /**
  * Interface for specifying parameters when constructing a network.
@@ -20,7 +26,7 @@ export interface NetworkConstructorParameters {
   /**
    * Node weights.
    */
-  nodeWeights?: number[]
+  nodeWeights?: DoubleArray
 
   /**
    * Edge list.
@@ -30,17 +36,17 @@ export interface NetworkConstructorParameters {
   /**
    * Index of the first neighbor of each node.
    */
-  firstNeighborIndices?: number[]
+  firstNeighborIndices?: IntegerArray
 
   /**
    * Neighbor list.
    */
-  neighbors?: number[]
+  neighbors?: IntegerArray
 
   /**
    * Edge weights.
    */
-  edgeWeights?: number[]
+  edgeWeights?: DoubleArray
 
   /**
    * Indicates whether the edge list is sorted.
@@ -51,17 +57,82 @@ export interface NetworkConstructorParameters {
    * Indicates whether to check the integrity of the network.
    */
   checkIntegrity?: boolean
+
+  /**
+   * Indicates whether to store the network in typed arrays.
+   */
+  useTypedArrays?: boolean
+
+  /**
+   * Attributes of the nodes, one row per node.
+   */
+  nodeAttributes?: AttributeTable
+}
+
+/**
+ * Interface for the JSON representation of a network.
+ */
+export interface NetworkJSON {
+  /**
+   * Version of the JSON representation.
+   */
+  version: number
+
+  /**
+   * Number of nodes.
+   */
+  nNodes: number
+
+  /**
+   * Node weights.
+   */
+  nodeWeights: number[]
+
+  /**
+   * Index of the first neighbor of each node.
+   */
+  firstNeighborIndices: number[]
+
+  /**
+   * Neighbor list.
+   */
+  neighbors: number[]
+
+  /**
+   * Edge weights.
+   */
+  edgeWeights: number[]
+
+  /**
+   * Total edge weight of self links.
+   */
+  totalEdgeWeightSelfLinks: number
 }
 
+const NETWORK_BINARY_IDENTIFIER = 'NANW'
+
+const MAX_N_ITERATIONS_STRENGTH_FITTING = 1000
+
+const TOLERANCE_STRENGTH_FITTING = 1e-10
+
 /**
  * Network.
  *
- * Weighted nodes and weighted edges are supported. Directed edges are not
- * supported.
+ * Weighted nodes and weighted edges are supported. Directed edges are
+ * supported by {@link DirectedNetwork}.
  *
  * Network objects are immutable.
  *
  * The adjacency matrix of the network is stored in a sparse compressed format.
+ * The arrays of this format are either plain arrays or, if requested when
+ * constructing the network, typed arrays. Typed arrays require less memory.
+ * Networks created from a network, for instance subnetworks and reduced
+ * networks, use the same type of arrays.
+ *
+ * Attributes of the nodes and the edges can be attached to a network using
+ * {@link AttributeTable}. They are carried through subnetworks, reduced
+ * networks, and other networks created from the network, but are not included
+ * in the JSON and binary representations of the network.
  */
 export default class Network {
   /**
@@ -72,7 +143,7 @@ export default class Network {
   /**
    * Node weights.
    */
-  public nodeWeights!: number[]
+  public nodeWeights!: DoubleArray
 
   /**
    * Index of the first neighbor of each node in the `neighbors` array.
@@ -81,23 +152,43 @@ export default class Network {
    * `neighbors[firstNeighborIndices[i]], ...,
    * neighbors[firstNeighborIndices[i + 1] - 1]`.
    */
-  public firstNeighborIndices!: number[]
+  public firstNeighborIndices!: IntegerArray
 
   /**
    * Neighbors of each node.
    */
-  public neighbors!: number[]
+  public neighbors!: IntegerArray
 
   /**
    * Edge weights.
    */
-  public edgeWeights!: number[]
+  public edgeWeights!: DoubleArray
 
   /**
    * Total edge weight of self links.
    */
   public totalEdgeWeightSelfLinks!: number
 
+  /**
+   * Attributes of the nodes, one row per node.
+   *
+   * The node attributes are carried through the operations that create a new
+   * network from the network. For a subnetwork, the rows of the nodes in the
+   * subnetwork are selected. For a reduced network, the rows of the nodes in
+   * each cluster are aggregated.
+   */
+  public nodeAttributes?: AttributeTable
+
+  /**
+   * Attributes of the edges, one row per edge in each direction.
+   *
+   * The rows are in the order of the `neighbors` array, which is also the
+   * order of the edges returned by {@link getEdges}. The edge attributes are
+   * carried through the operations that create a new network from the
+   * network in the same way as the node attributes.
+   */
+  public edgeAttributes?: AttributeTable
+
   /**
    * Number of edges.
    *
@@ -116,12 +207,81 @@ export default class Network {
         this.initializeNetworkBasedOnEdges(parameters.nodeWeights.length, parameters.nodeWeights, parameters.setNodeWeightsToTotalEdgeWeights, parameters.edges, parameters.edgeWeights, parameters.sortedEdges, parameters.checkIntegrity)
       } else if (parameters.nodeWeights && parameters.firstNeighborIndices && parameters.neighbors) {
         this.initializeNetworkBasedOnNeighbors(parameters.nodeWeights.length, parameters.nodeWeights, parameters.setNodeWeightsToTotalEdgeWeights, parameters.firstNeighborIndices, parameters.neighbors, parameters.edgeWeights, parameters.checkIntegrity)
-      } else if (parameters.nNodes && parameters.edges) {
+      } else if (parameters.nNodes !== undefined && parameters.edges) {
         this.initializeNetworkBasedOnEdges(parameters.nNodes, parameters.nodeWeights, parameters.setNodeWeightsToTotalEdgeWeights, parameters.edges, parameters.edgeWeights, parameters.sortedEdges, parameters.checkIntegrity)
-      } else if (parameters.nNodes && parameters.firstNeighborIndices && parameters.neighbors) {
+      } else if (parameters.nNodes !== undefined && parameters.firstNeighborIndices && parameters.neighbors) {
         this.initializeNetworkBasedOnNeighbors(parameters.nNodes, parameters.nodeWeights, parameters.setNodeWeightsToTotalEdgeWeights, parameters.firstNeighborIndices, parameters.neighbors, parameters.edgeWeights, parameters.checkIntegrity)
       }
+      if (this.neighbors !== undefined) this.convertArrays(parameters.useTypedArrays === true)
+      if (parameters.nodeAttributes !== undefined) this.setAttributes(parameters.nodeAttributes, undefined)
+    }
+  }
+
+  /**
+   * Creates a network from its JSON representation.
+   *
+   * The integrity of the network is checked.
+   *
+   * @param json JSON representation, either as object or as string
+   *
+   * @return Network
+   *
+   * @throws The JSON representation is not a valid representation of a network.
+   */
+  public static fromJSON (json: NetworkJSON | string): Network {
+    const networkJSON = parseJSON(json)
+    checkJSONVersion(networkJSON.version, 'network')
+    checkJSONNumber(networkJSON.nNodes, 'nNodes', true)
+    checkJSONNumberArray(networkJSON.nodeWeights, 'nodeWeights')
+    checkJSONNumberArray(networkJSON.firstNeighborIndices, 'firstNeighborIndices', true)
+    checkJSONNumberArray(networkJSON.neighbors, 'neighbors', true)
+    checkJSONNumberArray(networkJSON.edgeWeights, 'edgeWeights')
+    checkJSONNumber(networkJSON.totalEdgeWeightSelfLinks, 'totalEdgeWeightSelfLinks')
+    if (networkJSON.nodeWeights.length !== networkJSON.nNodes) {
+      throw new Error('Length of nodeWeights array must be equal to nNodes.')
     }
+
+    const network = new Network({
+      nodeWeights: networkJSON.nodeWeights,
+      firstNeighborIndices: networkJSON.firstNeighborIndices,
+      neighbors: networkJSON.neighbors,
+      edgeWeights: networkJSON.edgeWeights,
+      checkIntegrity: true,
+    })
+    network.totalEdgeWeightSelfLinks = networkJSON.totalEdgeWeightSelfLinks
+    return network
+  }
+
+  /**
+   * Creates a network from its binary representation.
+   *
+   * The network is decoded as it was encoded. Edges are not sorted again and
+   * the integrity of the network is not checked.
+   *
+   * @param binary         Binary representation, either as buffer or as view
+   * @param useTypedArrays Indicates whether to store the network in typed arrays
+   *
+   * @return Network
+   *
+   * @throws The binary representation is not a valid representation of a network.
+   */
+  public static fromBinary (binary: ArrayBuffer | ArrayBufferView, useTypedArrays = true): Network {
+    const { buffer, headerValues: [nNodes, nEdges, totalEdgeWeightSelfLinks] } = readBinaryHeader(binary, NETWORK_BINARY_IDENTIFIER, 'network')
+    checkBinaryLength(buffer, getNetworkBinaryLength(nNodes, nEdges), 'network')
+
+    const network = new Network()
+    let offset = BINARY_HEADER_LENGTH
+    network.nNodes = nNodes
+    network.nEdges = nEdges
+    network.totalEdgeWeightSelfLinks = totalEdgeWeightSelfLinks
+    network.nodeWeights = readDoubleArray(buffer, offset, nNodes, useTypedArrays)
+    offset += 8 * nNodes
+    network.edgeWeights = readDoubleArray(buffer, offset, nEdges, useTypedArrays)
+    offset += 8 * nEdges
+    network.firstNeighborIndices = readIntegerArray(buffer, offset, nNodes + 1, useTypedArrays)
+    offset += 4 * (nNodes + 1)
+    network.neighbors = readIntegerArray(buffer, offset, nEdges, useTypedArrays)
+    return network
   }
 
   /**
@@ -148,7 +308,7 @@ export default class Network {
    * @return Weight of each node
    */
   public getNodeWeights (): number[] {
-    return this.nodeWeights.slice()
+    return copyToArray(this.nodeWeights)
   }
 
   /**
@@ -218,7 +378,7 @@ export default class Network {
     for (let i = 0; i < this.nNodes; i++) {
       edges[0].fill(i, this.firstNeighborIndices[i], this.firstNeighborIndices[i + 1])
     }
-    edges[1] = this.neighbors.slice()
+    edges[1] = copyToArray(this.neighbors)
     return edges
   }
 
@@ -230,7 +390,7 @@ export default class Network {
   public getNeighborsPerNode (): number[][] {
     const neighborsPerNode = new Array<Array<number>>(this.nNodes)
     for (let i = 0; i < this.nNodes; i++) {
-      neighborsPerNode[i] = this.neighbors.slice(this.firstNeighborIndices[i], this.firstNeighborIndices[i + 1])
+      neighborsPerNode[i] = copyToArray(this.neighbors, this.firstNeighborIndices[i], this.firstNeighborIndices[i + 1])
     }
     return neighborsPerNode
   }
@@ -243,7 +403,7 @@ export default class Network {
    * @return List of neighbors
    */
   public getNeighbors (node: number): number[] {
-    return this.neighbors.slice(this.firstNeighborIndices[node], this.firstNeighborIndices[node + 1])
+    return copyToArray(this.neighbors, this.firstNeighborIndices[node], this.firstNeighborIndices[node + 1])
   }
 
   /**
@@ -284,7 +444,7 @@ export default class Network {
   public getEdgeWeightsPerNode (): number[][] {
     const edgeWeightsPerNode = new Array<Array<number>>(this.nNodes)
     for (let i = 0; i < this.nNodes; i++) {
-      edgeWeightsPerNode[i] = this.edgeWeights.slice(this.firstNeighborIndices[i], this.firstNeighborIndices[i + 1])
+      edgeWeightsPerNode[i] = copyToArray(this.edgeWeights, this.firstNeighborIndices[i], this.firstNeighborIndices[i + 1])
     }
     return edgeWeightsPerNode
   }
@@ -298,7 +458,7 @@ export default class Network {
    * @return List of edge weights
    */
   public getEdgeWeights (node?: number): number[] {
-    return node === undefined ? this.edgeWeights.slice() : this.edgeWeights.slice(this.firstNeighborIndices[node], this.firstNeighborIndices[node + 1])
+    return node === undefined ? copyToArray(this.edgeWeights) : copyToArray(this.edgeWeights, this.firstNeighborIndices[node], this.firstNeighborIndices[node + 1])
   }
 
   /**
@@ -310,6 +470,58 @@ export default class Network {
     return this.totalEdgeWeightSelfLinks
   }
 
+  /**
+   * Indicates whether the network is stored in typed arrays.
+   *
+   * @return Whether the network is stored in typed arrays
+   */
+  public usesTypedArrays (): boolean {
+    return this.neighbors instanceof Int32Array
+  }
+
+  /**
+   * Creates a copy of the network that is stored in typed arrays or in plain
+   * arrays.
+   *
+   * @param useTypedArrays Indicates whether to store the network in typed
+   *                       arrays
+   *
+   * @return Copy of the network
+   */
+  public createNetworkUsingTypedArrays (useTypedArrays = true): Network {
+    const network = new Network()
+    network.nNodes = this.nNodes
+    network.nEdges = this.nEdges
+    network.nodeWeights = this.nodeWeights
+    network.firstNeighborIndices = this.firstNeighborIndices
+    network.neighbors = this.neighbors
+    network.edgeWeights = this.edgeWeights
+    network.totalEdgeWeightSelfLinks = this.totalEdgeWeightSelfLinks
+    network.nodeAttributes = this.nodeAttributes
+    network.edgeAttributes = this.edgeAttributes
+    network.convertArrays(useTypedArrays)
+    return network
+  }
+
+  /**
+   * Creates a copy of the network with attributes of the nodes and the
+   * edges attached.
+   *
+   * @param nodeAttributes Attributes of the nodes, one row per node
+   * @param edgeAttributes Attributes of the edges, one row per edge in each
+   *                       direction, in the order of the edges returned by
+   *                       {@link getEdges}
+   *
+   * @return Copy of the network with attributes
+   *
+   * @throws The number of rows of an attribute table is incorrect.
+   */
+  public createNetworkWithAttributes (nodeAttributes?: AttributeTable, edgeAttributes?: AttributeTable): Network {
+    const network = this.createNetworkUsingTypedArrays(this.usesTypedArrays())
+    network.setAttributes(nodeAttributes, edgeAttributes)
+    return network
+  }
+
   /**
    * Creates a copy of the network, but without node weights.
    *
@@ -321,11 +533,13 @@ export default class Network {
     const networkWithoutNodeWeights = new Network()
     networkWithoutNodeWeights.nNodes = this.nNodes
     networkWithoutNodeWeights.nEdges = this.nEdges
-    networkWithoutNodeWeights.nodeWeights = new Array<number>(this.nNodes).fill(1)
+    networkWithoutNodeWeights.nodeWeights = createDoubleArray(this.nNodes, this.usesTypedArrays()).fill(1)
     networkWithoutNodeWeights.firstNeighborIndices = this.firstNeighborIndices
     networkWithoutNodeWeights.neighbors = this.neighbors
     networkWithoutNodeWeights.edgeWeights = this.edgeWeights
     networkWithoutNodeWeights.totalEdgeWeightSelfLinks = this.totalEdgeWeightSelfLinks
+    networkWithoutNodeWeights.nodeAttributes = this.nodeAttributes
+    networkWithoutNodeWeights.edgeAttributes = this.edgeAttributes
     return networkWithoutNodeWeights
   }
 
@@ -343,8 +557,10 @@ export default class Network {
     networkWithoutEdgeWeights.nodeWeights = this.nodeWeights
     networkWithoutEdgeWeights.firstNeighborIndices = this.firstNeighborIndices
     networkWithoutEdgeWeights.neighbors = this.neighbors
-    networkWithoutEdgeWeights.edgeWeights = new Array<number>(this.nEdges).fill(1)
+    networkWithoutEdgeWeights.edgeWeights = createDoubleArray(this.nEdges, this.usesTypedArrays()).fill(1)
     networkWithoutEdgeWeights.totalEdgeWeightSelfLinks = 0
+    networkWithoutEdgeWeights.nodeAttributes = this.nodeAttributes
+    networkWithoutEdgeWeights.edgeAttributes = this.edgeAttributes
     return networkWithoutEdgeWeights
   }
 
@@ -360,11 +576,13 @@ export default class Network {
     const networkWithoutNodeAndEdgeWeights = new Network()
     networkWithoutNodeAndEdgeWeights.nNodes = this.nNodes
     networkWithoutNodeAndEdgeWeights.nEdges = this.nEdges
-    networkWithoutNodeAndEdgeWeights.nodeWeights = new Array<number>(this.nNodes).fill(1)
+    networkWithoutNodeAndEdgeWeights.nodeWeights = createDoubleArray(this.nNodes, this.usesTypedArrays()).fill(1)
     networkWithoutNodeAndEdgeWeights.firstNeighborIndices = this.firstNeighborIndices
     networkWithoutNodeAndEdgeWeights.neighbors = this.neighbors
-    networkWithoutNodeAndEdgeWeights.edgeWeights = new Array<number>(this.nEdges).fill(1)
+    networkWithoutNodeAndEdgeWeights.edgeWeights = createDoubleArray(this.nEdges, this.usesTypedArrays()).fill(1)
     networkWithoutNodeAndEdgeWeights.totalEdgeWeightSelfLinks = 0
+    networkWithoutNodeAndEdgeWeights.nodeAttributes = this.nodeAttributes
+    networkWithoutNodeAndEdgeWeights.edgeAttributes = this.edgeAttributes
     return networkWithoutNodeAndEdgeWeights
   }
 
@@ -396,11 +614,11 @@ export default class Network {
 
     normalizedNetwork.nNodes = this.nNodes
     normalizedNetwork.nEdges = this.nEdges
-    normalizedNetwork.nodeWeights = new Array<number>(this.nNodes).fill(1)
+    normalizedNetwork.nodeWeights = createDoubleArray(this.nNodes, this.usesTypedArrays()).fill(1)
     normalizedNetwork.firstNeighborIndices = this.firstNeighborIndices
     normalizedNetwork.neighbors = this.neighbors
 
-    normalizedNetwork.edgeWeights = new Array<number>(this.nEdges)
+    normalizedNetwork.edgeWeights = createDoubleArray(this.nEdges, this.usesTypedArrays())
     const totalNodeWeight = this.getTotalNodeWeight()
     for (let i = 0; i < this.nNodes; i++) {
       for (let j = this.firstNeighborIndices[i]; j < this.firstNeighborIndices[i + 1]; j++) {
@@ -409,6 +627,8 @@ export default class Network {
     }
 
     normalizedNetwork.totalEdgeWeightSelfLinks = 0
+    normalizedNetwork.nodeAttributes = this.nodeAttributes
+    normalizedNetwork.edgeAttributes = this.edgeAttributes
 
     return normalizedNetwork
   }
@@ -436,11 +656,11 @@ export default class Network {
 
     normalizedNetwork.nNodes = this.nNodes
     normalizedNetwork.nEdges = this.nEdges
-    normalizedNetwork.nodeWeights = new Array<number>(this.nNodes).fill(1)
+    normalizedNetwork.nodeWeights = createDoubleArray(this.nNodes, this.usesTypedArrays()).fill(1)
     normalizedNetwork.firstNeighborIndices = this.firstNeighborIndices
     normalizedNetwork.neighbors = this.neighbors
 
-    normalizedNetwork.edgeWeights = new Array<number>(this.nEdges)
+    normalizedNetwork.edgeWeights = createDoubleArray(this.nEdges, this.usesTypedArrays())
     for (let i = 0; i < this.nNodes; i++) {
       for (let j = this.firstNeighborIndices[i]; j < this.firstNeighborIndices[i + 1]; j++) {
         normalizedNetwork.edgeWeights[j] = this.edgeWeights[j] / (2 / (this.nNodes / this.nodeWeights[i] + this.nNodes / this.nodeWeights[this.neighbors[j]]))
@@ -448,6 +668,135 @@ export default class Network {
     }
 
     normalizedNetwork.totalEdgeWeightSelfLinks = 0
+    normalizedNetwork.nodeAttributes = this.nodeAttributes
+    normalizedNetwork.edgeAttributes = this.edgeAttributes
+
+    return normalizedNetwork
+  }
+
+  /**
+   * Creates a copy of the network in which the edge weights have been
+   * normalized using the cosine (or Salton) similarity.
+   *
+   * The normalized weight `a'[i][j]` of the edge between nodes `i` and `j` is
+   * given by
+   *
+   * ```
+   * a'[i][j] = a[i][j] / sqrt(n[i] * n[j]),
+   * ```
+   *
+   * where `a[i][j]` is the non-normalized weight of the edge between nodes `i`
+   * and `j` and `n[i]` is the weight of node `i`.
+   *
+   * The node weights are set to 1.
+   *
+   * @return Normalized network
+   */
+  public createNormalizedNetworkUsingCosineSimilarity (): Network {
+    const normalizedNetwork = new Network()
+
+    normalizedNetwork.nNodes = this.nNodes
+    normalizedNetwork.nEdges = this.nEdges
+    normalizedNetwork.nodeWeights = createDoubleArray(this.nNodes, this.usesTypedArrays()).fill(1)
+    normalizedNetwork.firstNeighborIndices = this.firstNeighborIndices
+    normalizedNetwork.neighbors = this.neighbors
+
+    normalizedNetwork.edgeWeights = createDoubleArray(this.nEdges, this.usesTypedArrays())
+    for (let i = 0; i < this.nNodes; i++) {
+      for (let j = this.firstNeighborIndices[i]; j < this.firstNeighborIndices[i + 1]; j++) {
+        normalizedNetwork.edgeWeights[j] = this.edgeWeights[j] / Math.sqrt(this.nodeWeights[i] * this.nodeWeights[this.neighbors[j]])
+      }
+    }
+
+    normalizedNetwork.totalEdgeWeightSelfLinks = 0
+    normalizedNetwork.nodeAttributes = this.nodeAttributes
+    normalizedNetwork.edgeAttributes = this.edgeAttributes
+
+    return normalizedNetwork
+  }
+
+  /**
+   * Creates a copy of the network in which the edge weights have been
+   * normalized using the Jaccard index.
+   *
+   * The normalized weight `a'[i][j]` of the edge between nodes `i` and `j` is
+   * given by
+   *
+   * ```
+   * a'[i][j] = a[i][j] / (n[i] + n[j] - a[i][j]),
+   * ```
+   *
+   * where `a[i][j]` is the non-normalized weight of the edge between nodes `i`
+   * and `j` and `n[i]` is the weight of node `i`.
+   *
+   * The node weights are assumed to be the numbers of occurrences of the
+   * nodes, or the total weights of their edges, so that the weight of an edge
+   * does not exceed the weights of the nodes it connects.
+   *
+   * The node weights are set to 1.
+   *
+   * @return Normalized network
+   */
+  public createNormalizedNetworkUsingJaccardIndex (): Network {
+    const normalizedNetwork = new Network()
+
+    normalizedNetwork.nNodes = this.nNodes
+    normalizedNetwork.nEdges = this.nEdges
+    normalizedNetwork.nodeWeights = createDoubleArray(this.nNodes, this.usesTypedArrays()).fill(1)
+    normalizedNetwork.firstNeighborIndices = this.firstNeighborIndices
+    normalizedNetwork.neighbors = this.neighbors
+
+    normalizedNetwork.edgeWeights = createDoubleArray(this.nEdges, this.usesTypedArrays())
+    for (let i = 0; i < this.nNodes; i++) {
+      for (let j = this.firstNeighborIndices[i]; j < this.firstNeighborIndices[i + 1]; j++) {
+        normalizedNetwork.edgeWeights[j] = this.edgeWeights[j] / (this.nodeWeights[i] + this.nodeWeights[this.neighbors[j]] - this.edgeWeights[j])
+      }
+    }
+
+    normalizedNetwork.totalEdgeWeightSelfLinks = 0
+    normalizedNetwork.nodeAttributes = this.nodeAttributes
+    normalizedNetwork.edgeAttributes = this.edgeAttributes
+
+    return normalizedNetwork
+  }
+
+  /**
+   * Creates a copy of the network in which the edge weights have been
+   * normalized using the inclusion index.
+   *
+   * The normalized weight `a'[i][j]` of the edge between nodes `i` and `j` is
+   * given by
+   *
+   * ```
+   * a'[i][j] = a[i][j] / min(n[i], n[j]),
+   * ```
+   *
+   * where `a[i][j]` is the non-normalized weight of the edge between nodes `i`
+   * and `j` and `n[i]` is the weight of node `i`.
+   *
+   * The node weights are set to 1.
+   *
+   * @return Normalized network
+   */
+  public createNormalizedNetworkUsingInclusionIndex (): Network {
+    const normalizedNetwork = new Network()
+
+    normalizedNetwork.nNodes = this.nNodes
+    normalizedNetwork.nEdges = this.nEdges
+    normalizedNetwork.nodeWeights = createDoubleArray(this.nNodes, this.usesTypedArrays()).fill(1)
+    normalizedNetwork.firstNeighborIndices = this.firstNeighborIndices
+    normalizedNetwork.neighbors = this.neighbors
+
+    normalizedNetwork.edgeWeights = createDoubleArray(this.nEdges, this.usesTypedArrays())
+    for (let i = 0; i < this.nNodes; i++) {
+      for (let j = this.firstNeighborIndices[i]; j < this.firstNeighborIndices[i + 1]; j++) {
+        normalizedNetwork.edgeWeights[j] = this.edgeWeights[j] / Math.min(this.nodeWeights[i], this.nodeWeights[this.neighbors[j]])
+      }
+    }
+
+    normalizedNetwork.totalEdgeWeightSelfLinks = 0
+    normalizedNetwork.nodeAttributes = this.nodeAttributes
+    normalizedNetwork.edgeAttributes = this.edgeAttributes
 
     return normalizedNetwork
   }
@@ -458,7 +807,10 @@ export default class Network {
    *
     * Only the edges with the highest weights are retained in the pruned
    * network. In case of ties, the edges to be retained are selected
-   * randomly.
+   * randomly. To this end, a random number is drawn for each edge, in the
+   * order in which the edges are stored, so the memory required grows
+   * linearly with the number of edges and the selection is determined by the
+   * state of the random number generator.
    *
    * @param maxNEdges Maximum number of edges
    * @param random    Random number generator
@@ -492,7 +844,16 @@ export default class Network {
       nEdgesAtThreshold++
     }
 
-    const randomNumbers = createDoubleArrayOfRandomNumbers(this.nNodes * this.nNodes, random)
+    const randomNumbers = createDoubleArray(this.nEdges, this.usesTypedArrays())
+    for (let j = 0; j < this.nNodes; j++) {
+      let k = this.firstNeighborIndices[j]
+      while ((k < this.firstNeighborIndices[j + 1]) && (this.neighbors[k] < j)) {
+        const l = this.neighbors[k]
+        randomNumbers[k] = random.nextDouble()
+        randomNumbers[binarySearch(this.neighbors, this.firstNeighborIndices[l], this.firstNeighborIndices[l + 1], j)] = randomNumbers[k]
+        k++
+      }
+    }
 
     const randomNumbersEdgesAtThreshold = new Array<number>(nEdgesAtThreshold).fill(0)
     i = 0
@@ -500,7 +861,7 @@ export default class Network {
       let k = this.firstNeighborIndices[j]
       while ((k < this.firstNeighborIndices[j + 1]) && (this.neighbors[k] < j)) {
         if (this.edgeWeights[k] === edgeWeightThreshold) {
-          randomNumbersEdgesAtThreshold[i] = this.getRandomNumber(j, this.neighbors[k], randomNumbers)
+          randomNumbersEdgesAtThreshold[i] = randomNumbers[k]
           i++
         }
         k++
@@ -515,15 +876,17 @@ export default class Network {
     prunedNetwork.nEdges = maxNEdges
     prunedNetwork.nodeWeights = this.nodeWeights
 
-    prunedNetwork.firstNeighborIndices = new Array<number>(this.nNodes + 1).fill(0)
-    prunedNetwork.neighbors = new Array<number>(maxNEdges).fill(0)
-    prunedNetwork.edgeWeights = new Array<number>(maxNEdges).fill(0)
+    prunedNetwork.firstNeighborIndices = createIntegerArray(this.nNodes + 1, this.usesTypedArrays())
+    prunedNetwork.neighbors = createIntegerArray(maxNEdges, this.usesTypedArrays())
+    prunedNetwork.edgeWeights = createDoubleArray(maxNEdges, this.usesTypedArrays())
+    const edgeRows = new Array<number>(this.edgeAttributes !== undefined ? maxNEdges : 0)
     i = 0
     for (let j = 0; j < this.nNodes; j++) {
       for (let k = this.firstNeighborIndices[j]; k < this.firstNeighborIndices[j + 1]; k++) {
-        if ((this.edgeWeights[k] > edgeWeightThreshold) || ((this.edgeWeights[k] === edgeWeightThreshold) && (this.getRandomNumber(j, this.neighbors[k], randomNumbers) >= randomNumberThreshold))) {
+        if ((this.edgeWeights[k] > edgeWeightThreshold) || ((this.edgeWeights[k] === edgeWeightThreshold) && (randomNumbers[k] >= randomNumberThreshold))) {
           prunedNetwork.neighbors[i] = this.neighbors[k]
           prunedNetwork.edgeWeights[i] = this.edgeWeights[k]
+          if (this.edgeAttributes !== undefined) edgeRows[i] = k
           i++
         }
       }
@@ -531,10 +894,92 @@ export default class Network {
     }
 
     prunedNetwork.totalEdgeWeightSelfLinks = 0
+    prunedNetwork.nodeAttributes = this.nodeAttributes
+    prunedNetwork.edgeAttributes = this.edgeAttributes?.selectRows(edgeRows)
 
     return prunedNetwork
   }
 
+  /**
+   * Creates a copy of the network in which the edges have been randomly
+   * rewired while preserving the number of neighbors of each node.
+   *
+   * Rewiring is performed using double edge swaps. In each swap, two edges
+   * `i`-`j` and `k`-`l` are selected randomly and replaced by edges `i`-`l`
+   * and `k`-`j`, unless this would result in a self link or a duplicate edge.
+   * Edges keep their weight when they are rewired. Node weights, node
+   * attributes, and the total edge weight of self links are retained. Edge
+   * attributes are not retained.
+   *
+   * @param nSwapsPerEdge Number of attempted swaps per edge
+   * @param random        Random number generator
+   *
+   * @return Rewired network
+   */
+  public createRewiredNetwork (nSwapsPerEdge = 10, random: Random = new Random()): Network {
+    const { edges, edgeWeights } = this.rewireEdges(nSwapsPerEdge, random)
+    return this.createNetworkBasedOnRewiredEdges(edges, edgeWeights)
+  }
+
+  /**
+   * Creates a copy of the network in which the edges have been randomly
+   * rewired while preserving the number of neighbors and the total edge
+   * weight of each node.
+   *
+   * The edges are first rewired as in {@link createRewiredNetwork}. The edge
+   * weights are then reassigned, with the highest weights assigned to the
+   * edges for which the product of the total edge weights of the nodes is
+   * highest. Finally, the edge weights are scaled iteratively until the total
+   * edge weight of each node equals its total edge weight in the original
+   * network. The distribution of the edge weights is therefore preserved
+   * approximately rather than exactly.
+   *
+   * @param nSwapsPerEdge Number of attempted swaps per edge
+   * @param random        Random number generator
+   *
+   * @return Rewired network
+   */
+  public createRewiredNetworkPreservingStrength (nSwapsPerEdge = 10, random: Random = new Random()): Network {
+    const { edges, edgeWeights } = this.rewireEdges(nSwapsPerEdge, random)
+    this.fitEdgeWeightsToStrengths(edges, edgeWeights)
+    return this.createNetworkBasedOnRewiredEdges(edges, edgeWeights)
+  }
+
+  /**
+   * Creates a random network with the same number of neighbors per node
+   * using the configuration model.
+   *
+   * See {@link NetworkGenerator.generateConfigurationModelNetwork}. The edge
+   * weights of the network are redistributed over the edges of the random
+   * network as in {@link createRewiredNetworkPreservingStrength}. If stubs
+   * are dropped, the lowest edge weights are left out. Node weights, node
+   * attributes, and the total edge weight of self links are retained. Edge
+   * attributes are not retained.
+   *
+   * @param random Random number generator
+   *
+   * @return Random network
+   */
+  public createConfigurationModelNetwork (random: Random = new Random()): Network {
+    const stubs = new Array<number>(0)
+    const originalEdgeWeights = new Array<number>(0)
+    for (let i = 0; i < this.nNodes; i++) {
+      for (let j = this.firstNeighborIndices[i]; j < this.firstNeighborIndices[i + 1]; j++) {
+        stubs.push(i)
+        if (this.neighbors[j] < i) {
+          originalEdgeWeights.push(this.edgeWeights[j])
+        }
+      }
+    }
+
+    const edges = [new Array<number>(0), new Array<number>(0)]
+    matchStubs(stubs, this.nNodes, () => true, edges, new Set<number>(), random)
+    originalEdgeWeights.sort((a, b) => a - b)
+    const edgeWeights = originalEdgeWeights.slice(originalEdgeWeights.length - edges[0].length)
+    this.fitEdgeWeightsToStrengths(edges, edgeWeights)
+    return this.createNetworkBasedOnRewiredEdges(edges, edgeWeights)
+  }
+
   /**
    * Creates an induced subnetwork for specified nodes.
    *
@@ -549,11 +994,12 @@ export default class Network {
 
     if (subnetwork.nNodes === 1) {
       subnetwork.nEdges = 0
-      subnetwork.nodeWeights = new Array<number>(1)
+      subnetwork.nodeWeights = createDoubleArray(1, this.usesTypedArrays())
       subnetwork.nodeWeights[0] = this.nodeWeights[nodes[0]]
-      subnetwork.firstNeighborIndices = new Array<number>(2).fill(0)
-      subnetwork.neighbors = new Array<number>(0)
-      subnetwork.edgeWeights = new Array<number>(0)
+      subnetwork.firstNeighborIndices = createIntegerArray(2, this.usesTypedArrays())
+      subnetwork.neighbors = createIntegerArray(0, this.usesTypedArrays())
+      subnetwork.edgeWeights = createDoubleArray(0, this.usesTypedArrays())
+      subnetwork.edgeAttributes = this.edgeAttributes?.selectRows([])
     } else {
       const subnetworkNodes = new Array<number>(this.nNodes).fill(-1)
       for (let i = 0; i < nodes.length; i++) {
@@ -561,10 +1007,11 @@ export default class Network {
       }
 
       subnetwork.nEdges = 0
-      subnetwork.nodeWeights = new Array<number>(subnetwork.nNodes)
-      subnetwork.firstNeighborIndices = new Array<number>(subnetwork.nNodes + 1).fill(0)
-      const subnetworkNeighbors = new Array<number>(this.nEdges).fill(0)
-      const subnetworkEdgeWeights = new Array<number>(this.nEdges).fill(0)
+      subnetwork.nodeWeights = createDoubleArray(subnetwork.nNodes, this.usesTypedArrays())
+      subnetwork.firstNeighborIndices = createIntegerArray(subnetwork.nNodes + 1, this.usesTypedArrays())
+      const subnetworkNeighbors = createIntegerArray(this.nEdges, this.usesTypedArrays())
+      const subnetworkEdgeWeights = createDoubleArray(this.nEdges, this.usesTypedArrays())
+      const edgeRows = new Array<number>(0)
       for (let i = 0; i < subnetwork.nNodes; i++) {
         const j = nodes[i]
         subnetwork.nodeWeights[i] = this.nodeWeights[j]
@@ -572,6 +1019,7 @@ export default class Network {
           if (subnetworkNodes[this.neighbors[k]] >= 0) {
             subnetworkNeighbors[subnetwork.nEdges] = subnetworkNodes[this.neighbors[k]]
             subnetworkEdgeWeights[subnetwork.nEdges] = this.edgeWeights[k]
+            if (this.edgeAttributes !== undefined) edgeRows.push(k)
             subnetwork.nEdges++
           }
         }
@@ -580,9 +1028,11 @@ export default class Network {
       }
       subnetwork.neighbors = subnetworkNeighbors.slice(0, subnetwork.nEdges)
       subnetwork.edgeWeights = subnetworkEdgeWeights.slice(0, subnetwork.nEdges)
+      subnetwork.edgeAttributes = this.edgeAttributes?.selectRows(edgeRows)
     }
 
     subnetwork.totalEdgeWeightSelfLinks = 0
+    subnetwork.nodeAttributes = this.nodeAttributes?.selectRows(nodes)
 
     return subnetwork
   }
@@ -613,6 +1063,52 @@ export default class Network {
     return this.createSubnetworkForNodes1(nodes)
   }
 
+  /**
+   * Creates a subnetwork for specified edges.
+   *
+   * The subnetwork has the same nodes, node weights, and total edge weight of
+   * self links as the network, but includes only the specified edges. Each
+   * edge is specified for both of its directions, in the order of the edges
+   * returned by {@link getEdges}. An edge is included in the subnetwork if it
+   * is specified in at least one direction.
+   *
+   * @param edgesInSubnetwork Indicates the edges to be included in the
+   *                          subnetwork.
+   *
+   * @return Subnetwork
+   */
+  public createSubnetworkForEdges (edgesInSubnetwork: boolean[]): Network {
+    const subnetwork = new Network()
+
+    subnetwork.nNodes = this.nNodes
+    subnetwork.nEdges = 0
+    subnetwork.nodeWeights = this.nodeWeights
+    subnetwork.firstNeighborIndices = createIntegerArray(this.nNodes + 1, this.usesTypedArrays())
+    const subnetworkNeighbors = createIntegerArray(this.nEdges, this.usesTypedArrays())
+    const subnetworkEdgeWeights = createDoubleArray(this.nEdges, this.usesTypedArrays())
+    const edgeRows = new Array<number>(0)
+    for (let i = 0; i < this.nNodes; i++) {
+      for (let j = this.firstNeighborIndices[i]; j < this.firstNeighborIndices[i + 1]; j++) {
+        const k = this.neighbors[j]
+        if (edgesInSubnetwork[j] || edgesInSubnetwork[binarySearch(this.neighbors, this.firstNeighborIndices[k], this.firstNeighborIndices[k + 1], i)]) {
+          subnetworkNeighbors[subnetwork.nEdges] = k
+          subnetworkEdgeWeights[subnetwork.nEdges] = this.edgeWeights[j]
+          if (this.edgeAttributes !== undefined) edgeRows.push(j)
+          subnetwork.nEdges++
+        }
+      }
+      subnetwork.firstNeighborIndices[i + 1] = subnetwork.nEdges
+    }
+    subnetwork.neighbors = subnetworkNeighbors.slice(0, subnetwork.nEdges)
+    subnetwork.edgeWeights = subnetworkEdgeWeights.slice(0, subnetwork.nEdges)
+
+    subnetwork.totalEdgeWeightSelfLinks = this.totalEdgeWeightSelfLinks
+    subnetwork.nodeAttributes = this.nodeAttributes
+    subnetwork.edgeAttributes = this.edgeAttributes?.selectRows(edgeRows)
+
+    return subnetwork
+  }
+
   /**
    * Creates an induced subnetwork for a specified cluster in a clustering.
    *
@@ -627,8 +1123,8 @@ export default class Network {
   public createSubnetworkForCluster (clustering: Clustering, cluster: number): Network {
     const nodesPerCluster = clustering.getNodesPerCluster()
     const subnetworkNodes = new Array<number>(this.nNodes).fill(0)
-    const subnetworkNeighbors = new Array<number>(this.nEdges).fill(0)
-    const subnetworkEdgeWeights = new Array<number>(this.nEdges).fill(0)
+    const subnetworkNeighbors = createIntegerArray(this.nEdges, this.usesTypedArrays())
+    const subnetworkEdgeWeights = createDoubleArray(this.nEdges, this.usesTypedArrays())
     return this.createSubnetwork(clustering, cluster, nodesPerCluster[cluster], subnetworkNodes, subnetworkNeighbors, subnetworkEdgeWeights)
   }
 
@@ -643,8 +1139,8 @@ export default class Network {
     const subnetworks = new Array<Network>(clustering.nClusters)
     const nodesPerCluster = clustering.getNodesPerCluster()
     const subnetworkNodes = new Array<number>(this.nNodes).fill(0)
-    const subnetworkNeighbors = new Array<number>(this.nEdges).fill(0)
-    const subnetworkEdgeWeights = new Array<number>(this.nEdges).fill(0)
+    const subnetworkNeighbors = createIntegerArray(this.nEdges, this.usesTypedArrays())
+    const subnetworkEdgeWeights = createDoubleArray(this.nEdges, this.usesTypedArrays())
     for (let i = 0; i < clustering.nClusters; i++) {
       subnetworks[i] = this.createSubnetwork(clustering, i, nodesPerCluster[i], subnetworkNodes, subnetworkNeighbors, subnetworkEdgeWeights)
     }
@@ -660,6 +1156,117 @@ export default class Network {
     return this.createSubnetworkForCluster(this.identifyComponents(), 0)
   }
 
+  /**
+   * Creates an induced subnetwork of the k-core of the network, that is, the
+   * nodes with a coreness of at least `k`.
+   *
+   * @param k Minimum coreness
+   *
+   * @return Subnetwork
+   */
+  public createSubnetworkKCore (k: number): Network {
+    return this.createSubnetworkForNodes2(this.calcCoreness().map(coreness => coreness >= k))
+  }
+
+  /**
+   * Creates an induced subnetwork for specified nodes, together with the
+   * mapping between the nodes in the network and the nodes in the
+   * subnetwork.
+   *
+   * @param nodes Nodes
+   *
+   * @return Subnetwork and mapping
+   */
+  public createSubnetworkForNodes1WithMapping (nodes: number[]): SubnetworkWithMapping {
+    return {
+      subnetwork: this.createSubnetworkForNodes1(nodes),
+      mapping: new SubnetworkMapping(this.nNodes, nodes),
+    }
+  }
+
+  /**
+   * Creates an induced subnetwork for specified nodes, together with the
+   * mapping between the nodes in the network and the nodes in the
+   * subnetwork.
+   *
+   * @param nodesInSubnetwork Indicates the nodes to be included in the
+   *                          subnetwork.
+   *
+   * @return Subnetwork and mapping
+   */
+  public createSubnetworkForNodes2WithMapping (nodesInSubnetwork: boolean[]): SubnetworkWithMapping {
+    const nodes = new Array<number>(0)
+    for (let i = 0; i < this.nNodes; i++) {
+      if (nodesInSubnetwork[i]) {
+        nodes.push(i)
+      }
+    }
+    return this.createSubnetworkForNodes1WithMapping(nodes)
+  }
+
+  /**
+   * Creates an induced subnetwork for a specified cluster in a clustering,
+   * together with the mapping between the nodes in the network and the nodes
+   * in the subnetwork.
+   *
+   * @param clustering Clustering
+   * @param cluster    Cluster
+   *
+   * @return Subnetwork and mapping
+   */
+  public createSubnetworkForClusterWithMapping (clustering: Clustering, cluster: number): SubnetworkWithMapping {
+    return {
+      subnetwork: this.createSubnetworkForCluster(clustering, cluster),
+      mapping: new SubnetworkMapping(this.nNodes, clustering.getNodesPerCluster()[cluster]),
+    }
+  }
+
+  /**
+   * Creates induced subnetworks for the clusters in a clustering, together
+   * with the mappings between the nodes in the network and the nodes in the
+   * subnetworks.
+   *
+   * @param clustering Clustering
+   *
+   * @return Subnetworks and mappings
+   */
+  public createSubnetworksWithMapping (clustering: Clustering): SubnetworkWithMapping[] {
+    const subnetworks = this.createSubnetworks(clustering)
+    const nodesPerCluster = clustering.getNodesPerCluster()
+    return subnetworks.map((subnetwork, i) => ({
+      subnetwork,
+      mapping: new SubnetworkMapping(this.nNodes, nodesPerCluster[i]),
+    }))
+  }
+
+  /**
+   * Creates an induced subnetwork of the largest connected component,
+   * together with the mapping between the nodes in the network and the nodes
+   * in the subnetwork.
+   *
+   * @return Subnetwork and mapping
+   */
+  public createSubnetworkLargestComponentWithMapping (): SubnetworkWithMapping {
+    return this.createSubnetworkForClusterWithMapping(this.identifyComponents(), 0)
+  }
+
+  /**
+   * Creates an induced subnetwork of the k-core of the network, together
+   * with the mapping between the nodes in the network and the nodes in the
+   * subnetwork.
+   *
+   * The mapping can be used to lift a clustering of the k-core back onto the
+   * network, after which the nodes in the periphery can be assigned to
+   * clusters.
+   *
+   * @param k Minimum coreness
+   *
+   * @return Subnetwork and mapping
+   */
+  public createSubnetworkKCoreWithMapping (k: number): SubnetworkWithMapping {
+    return this.createSubnetworkForNodes2WithMapping(this.calcCoreness().map(coreness => coreness >= k))
+  }
+
   /**
    * Creates a reduced (or aggregate) network based on a clustering.
    *
@@ -680,14 +1287,16 @@ export default class Network {
     reducedNetwork.nNodes = clustering.nClusters
 
     reducedNetwork.nEdges = 0
-    reducedNetwork.nodeWeights = new Array<number>(clustering.nClusters).fill(0)
-    reducedNetwork.firstNeighborIndices = new Array<number>(clustering.nClusters + 1).fill(0)
+    reducedNetwork.nodeWeights = createDoubleArray(clustering.nClusters, this.usesTypedArrays())
+    reducedNetwork.firstNeighborIndices = createIntegerArray(clustering.nClusters + 1, this.usesTypedArrays())
     reducedNetwork.totalEdgeWeightSelfLinks = this.totalEdgeWeightSelfLinks
-    const reducedNetworkNeighbors1 = new Array<number>(this.nEdges).fill(0)
-    const reducedNetworkEdgeWeights1 = new Array<number>(this.nEdges).fill(0)
-    const reducedNetworkNeighbors2 = new Array<number>(clustering.nClusters - 1).fill(0)
-    const reducedNetworkEdgeWeights2 = new Array<number>(clustering.nClusters).fill(0)
+    const reducedNetworkNeighbors1 = createIntegerArray(this.nEdges, this.usesTypedArrays())
+    const reducedNetworkEdgeWeights1 = createDoubleArray(this.nEdges, this.usesTypedArrays())
+    const reducedNetworkNeighbors2 = createIntegerArray(clustering.nClusters - 1, this.usesTypedArrays())
+    const reducedNetworkEdgeWeights2 = createDoubleArray(clustering.nClusters, this.usesTypedArrays())
     const nodesPerCluster = clustering.getNodesPerCluster()
+    const edgeRowsPerEdge = new Array<number[]>(0)
+    const edgeRowsPerNeighbor = new Array<number[]>(this.edgeAttributes !== undefined ? clustering.nClusters : 0)
     for (let i = 0; i < clustering.nClusters; i++) {
       let j = 0
       for (let k = 0; k < nodesPerCluster[i].length; k++) {
@@ -701,8 +1310,10 @@ export default class Network {
             if (reducedNetworkEdgeWeights2[n] === 0) {
               reducedNetworkNeighbors2[j] = n
               j++
+              if (this.edgeAttributes !== undefined) edgeRowsPerNeighbor[n] = []
             }
             reducedNetworkEdgeWeights2[n] += this.edgeWeights[m]
+            if (this.edgeAttributes !== undefined) edgeRowsPerNeighbor[n].push(m)
           } else {
             reducedNetwork.totalEdgeWeightSelfLinks += this.edgeWeights[m]
           }
@@ -713,12 +1324,15 @@ export default class Network {
         reducedNetworkNeighbors1[reducedNetwork.nEdges + k] = reducedNetworkNeighbors2[k]
         reducedNetworkEdgeWeights1[reducedNetwork.nEdges + k] = reducedNetworkEdgeWeights2[reducedNetworkNeighbors2[k]]
         reducedNetworkEdgeWeights2[reducedNetworkNeighbors2[k]] = 0
+        if (this.edgeAttributes !== undefined) edgeRowsPerEdge.push(edgeRowsPerNeighbor[reducedNetworkNeighbors2[k]])
       }
       reducedNetwork.nEdges += j
       reducedNetwork.firstNeighborIndices[i + 1] = reducedNetwork.nEdges
     }
     reducedNetwork.neighbors = reducedNetworkNeighbors1.slice(0, reducedNetwork.nEdges)
     reducedNetwork.edgeWeights = reducedNetworkEdgeWeights1.slice(0, reducedNetwork.nEdges)
+    reducedNetwork.nodeAttributes = this.nodeAttributes?.aggregateRows(nodesPerCluster)
+    reducedNetwork.edgeAttributes = this.edgeAttributes?.aggregateRows(edgeRowsPerEdge)
 
     return reducedNetwork
   }
@@ -733,6 +1347,92 @@ export default class Network {
     return componentsAlgorithm.findClustering(this)
   }
 
+  /**
+   * Calculates the coreness of each node, that is, the largest `k` for which
+   * the node belongs to the k-core of the network.
+   *
+   * @return Coreness of each node
+   */
+  public calcCoreness (): number[] {
+    const coreDecompositionAlgorithm = new CoreDecompositionAlgorithm()
+    return coreDecompositionAlgorithm.calcCoreness(this)
+  }
+
+  /**
+   * Calculates the strength coreness of each node, that is, the largest `s`
+   * for which the node belongs to the s-core of the network.
+   *
+   * An induced subnetwork of the s-core can be created by passing the nodes
+   * with a strength coreness of at least `s` to
+   * {@link createSubnetworkForNodes2}.
+   *
+   * @return Strength coreness of each node
+   */
+  public calcStrengthCoreness (): number[] {
+    const coreDecompositionAlgorithm = new CoreDecompositionAlgorithm()
+    return coreDecompositionAlgorithm.calcStrengthCoreness(this)
+  }
+
+  /**
+   * Returns the JSON representation of the network.
+   *
+   * The JSON representation is also used by `JSON.stringify()`.
+   *
+   * @return JSON representation
+   */
+  public toJSON (): NetworkJSON {
+    return {
+      version: JSON_VERSION,
+      nNodes: this.nNodes,
+      nodeWeights: copyToArray(this.nodeWeights),
+      firstNeighborIndices: copyToArray(this.firstNeighborIndices),
+      neighbors: copyToArray(this.neighbors),
+      edgeWeights: copyToArray(this.edgeWeights),
+      totalEdgeWeightSelfLinks: this.totalEdgeWeightSelfLinks,
+    }
+  }
+
+  /**
+   * Returns the binary representation of the network.
+   *
+   * The binary representation consists of a header followed by sections with
+   * the node weights and edge weights as 64-bit floating point numbers and the
+   * indices of the first neighbors and the neighbors as 32-bit integers.
+   *
+   * @return Binary representation
+   */
+  public toBinary (): ArrayBuffer {
+    const buffer = createBinary(NETWORK_BINARY_IDENTIFIER, getNetworkBinaryLength(this.nNodes, this.nEdges), this.nNodes, this.nEdges, this.totalEdgeWeightSelfLinks)
+    let offset = BINARY_HEADER_LENGTH
+    new Float64Array(buffer, offset, this.nNodes).set(this.nodeWeights)
+    offset += 8 * this.nNodes
+    new Float64Array(buffer, offset, this.nEdges).set(this.edgeWeights)
+    offset += 8 * this.nEdges
+    new Int32Array(buffer, offset, this.nNodes + 1).set(this.firstNeighborIndices)
+    offset += 4 * (this.nNodes + 1)
+    new Int32Array(buffer, offset, this.nEdges).set(this.neighbors)
+    return buffer
+  }
+
+  /**
+   * Sets the node and edge attributes.
+   *
+   * @param nodeAttributes Node attributes
+   * @param edgeAttributes Edge attributes
+   *
+   * @throws The number of rows of the attributes is not correct.
+   */
+  protected setAttributes (nodeAttributes: AttributeTable | undefined, edgeAttributes: AttributeTable | undefined): void {
+    if (nodeAttributes !== undefined && nodeAttributes.getNRows() !== this.nNodes) {
+      throw new Error('Number of rows of node attributes must be equal to nNodes.')
+    }
+    if (edgeAttributes !== undefined && edgeAttributes.getNRows() !== this.nEdges) {
+      throw new Error('Number of rows of edge attributes must be equal to twice the number of edges.')
+    }
+    this.nodeAttributes = nodeAttributes
+    this.edgeAttributes = edgeAttributes
+  }
+
   /**
    * Checks the integrity of the network.
    *
@@ -822,7 +1522,7 @@ export default class Network {
     }
   }
 
-  private initializeNetworkBasedOnEdges (nNodes: number, nodeWeights: number[] | undefined, setNodeWeightsToTotalEdgeWeights: boolean | undefined, edges: number[][], edgeWeights: number[] | undefined, sortedEdges: boolean | undefined, checkIntegrity: boolean | undefined): void {
+  private initializeNetworkBasedOnEdges (nNodes: number, nodeWeights: DoubleArray | undefined, setNodeWeightsToTotalEdgeWeights: boolean | undefined, edges: number[][], edgeWeights: DoubleArray | undefined, sortedEdges: boolean | undefined, checkIntegrity: boolean | undefined): void {
     let i: number
     if (!sortedEdges) {
       const edges2 = [new Array<number>(2 * edges[0].length), new Array<number>(2 * edges[0].length)]
@@ -882,7 +1582,7 @@ export default class Network {
     if (checkIntegrity) this.checkIntegrity()
   }
 
-  private initializeNetworkBasedOnNeighbors (nNodes: number, nodeWeights: number[] | undefined, setNodeWeightsToTotalEdgeWeights: boolean | undefined, firstNeighborIndices: number[], neighbors: number[], edgeWeights: number[] | undefined, checkIntegrity: boolean | undefined): void {
+  private initializeNetworkBasedOnNeighbors (nNodes: number, nodeWeights: DoubleArray | undefined, setNodeWeightsToTotalEdgeWeights: boolean | undefined, firstNeighborIndices: IntegerArray, neighbors: IntegerArray, edgeWeights: DoubleArray | undefined, checkIntegrity: boolean | undefined): void {
     this.nNodes = nNodes
     this.nEdges = neighbors.length
     this.firstNeighborIndices = firstNeighborIndices.slice()
@@ -899,6 +1599,13 @@ export default class Network {
     if (checkIntegrity) this.checkIntegrity()
   }
 
+  private convertArrays (useTypedArrays: boolean): void {
+    this.nodeWeights = convertDoubleArray(this.nodeWeights, useTypedArrays)
+    this.firstNeighborIndices = convertIntegerArray(this.firstNeighborIndices, useTypedArrays)
+    this.neighbors = convertIntegerArray(this.neighbors, useTypedArrays)
+    this.edgeWeights = convertDoubleArray(this.edgeWeights, useTypedArrays)
+  }
+
   private getTotalEdgeWeightPerNodeHelper (): number[] {
     const totalEdgeWeightPerNode = new Array<number>(this.nNodes)
     for (let i = 0; i < this.nNodes; i++) {
@@ -907,39 +1614,126 @@ export default class Network {
     return totalEdgeWeightPerNode
   }
 
-  private getRandomNumber (node1: number, node2: number, randomNumbers: number[]): number {
-    let i: number
-    let j: number
-    if (node1 < node2) {
-      i = node1
-      j = node2
-    } else {
-      i = node2
-      j = node1
+  private fitEdgeWeightsToStrengths (edges: number[][], edgeWeights: number[]): void {
+    const totalEdgeWeightPerNode = this.getTotalEdgeWeightPerNodeHelper()
+    const nEdges = edgeWeights.length
+
+    const products = new Array<number>(nEdges)
+    for (let i = 0; i < nEdges; i++) {
+      products[i] = totalEdgeWeightPerNode[edges[0][i]] * totalEdgeWeightPerNode[edges[1][i]]
+    }
+    const orderedEdges = [...Array(nEdges).keys()].sort((edge1, edge2) => products[edge1] - products[edge2])
+    const sortedEdgeWeights = edgeWeights.slice().sort((a, b) => a - b)
+    for (let i = 0; i < nEdges; i++) {
+      edgeWeights[orderedEdges[i]] = sortedEdgeWeights[i]
+    }
+
+    const rewiredTotalEdgeWeightPerNode = new Array<number>(this.nNodes)
+    for (let i = 0; i < MAX_N_ITERATIONS_STRENGTH_FITTING; i++) {
+      rewiredTotalEdgeWeightPerNode.fill(0)
+      for (let j = 0; j < nEdges; j++) {
+        rewiredTotalEdgeWeightPerNode[edges[0][j]] += edgeWeights[j]
+        rewiredTotalEdgeWeightPerNode[edges[1][j]] += edgeWeights[j]
+      }
+      let maxRelativeDeviation = 0
+      for (let j = 0; j < this.nNodes; j++) {
+        if (totalEdgeWeightPerNode[j] > 0) {
+          maxRelativeDeviation = Math.max(maxRelativeDeviation, Math.abs(rewiredTotalEdgeWeightPerNode[j] / totalEdgeWeightPerNode[j] - 1))
+        }
+      }
+      if (maxRelativeDeviation < TOLERANCE_STRENGTH_FITTING) {
+        break
+      }
+      for (let j = 0; j < nEdges; j++) {
+        const k = edges[0][j]
+        const l = edges[1][j]
+        edgeWeights[j] *= Math.sqrt(totalEdgeWeightPerNode[k] / rewiredTotalEdgeWeightPerNode[k] * totalEdgeWeightPerNode[l] / rewiredTotalEdgeWeightPerNode[l])
+      }
+    }
+  }
+
+  private rewireEdges (nSwapsPerEdge: number, random: Random): { edges: number[][], edgeWeights: number[] } {
+    const nEdges = this.nEdges / 2
+    const edges = [new Array<number>(nEdges), new Array<number>(nEdges)]
+    const edgeWeights = new Array<number>(nEdges)
+    const edgeKeys = new Set<number>()
+    let i = 0
+    for (let j = 0; j < this.nNodes; j++) {
+      let k = this.firstNeighborIndices[j]
+      while ((k < this.firstNeighborIndices[j + 1]) && (this.neighbors[k] < j)) {
+        edges[0][i] = this.neighbors[k]
+        edges[1][i] = j
+        edgeWeights[i] = this.edgeWeights[k]
+        edgeKeys.add(this.neighbors[k] * this.nNodes + j)
+        i++
+        k++
+      }
+    }
+
+    if (nEdges < 2) {
+      return { edges, edgeWeights }
+    }
+    const nSwaps = nSwapsPerEdge * nEdges
+    for (let j = 0; j < nSwaps; j++) {
+      const edge1 = random.nextInt(nEdges)
+      const edge2 = random.nextInt(nEdges)
+      const node1 = edges[0][edge1]
+      const node2 = edges[1][edge1]
+      const reverse = (random.nextInt(2) === 0)
+      const node3 = reverse ? edges[1][edge2] : edges[0][edge2]
+      const node4 = reverse ? edges[0][edge2] : edges[1][edge2]
+      const key1 = Math.min(node1, node4) * this.nNodes + Math.max(node1, node4)
+      const key2 = Math.min(node3, node2) * this.nNodes + Math.max(node3, node2)
+      if ((node1 !== node4) && (node3 !== node2) && !edgeKeys.has(key1) && !edgeKeys.has(key2)) {
+        edgeKeys.delete(node1 * this.nNodes + node2)
+        edgeKeys.delete(edges[0][edge2] * this.nNodes + edges[1][edge2])
+        edgeKeys.add(key1)
+        edgeKeys.add(key2)
+        edges[0][edge1] = Math.min(node1, node4)
+        edges[1][edge1] = Math.max(node1, node4)
+        edges[0][edge2] = Math.min(node3, node2)
+        edges[1][edge2] = Math.max(node3, node2)
+      }
     }
-    return randomNumbers[i * this.nNodes + j]
+
+    return { edges, edgeWeights }
+  }
+
+  private createNetworkBasedOnRewiredEdges (edges: number[][], edgeWeights: number[]): Network {
+    const network = new Network({
+      nodeWeights: this.nodeWeights,
+      edges,
+      edgeWeights,
+      sortedEdges: false,
+      useTypedArrays: this.usesTypedArrays(),
+    })
+    network.totalEdgeWeightSelfLinks = this.totalEdgeWeightSelfLinks
+    network.nodeAttributes = this.nodeAttributes
+    return network
   }
 
-  private createSubnetwork (clustering: Clustering, cluster: number, nodes: number[], subnetworkNodes: number[], subnetworkNeighbors: number[], subnetworkEdgeWeights: number[]): Network {
+  private createSubnetwork (clustering: Clustering, cluster: number, nodes: number[], subnetworkNodes: number[], subnetworkNeighbors: IntegerArray, subnetworkEdgeWeights: DoubleArray): Network {
     const subnetwork = new Network()
 
     subnetwork.nNodes = nodes.length
 
     if (subnetwork.nNodes === 1) {
       subnetwork.nEdges = 0
-      subnetwork.nodeWeights = new Array<number>(1)
+      subnetwork.nodeWeights = createDoubleArray(1, this.usesTypedArrays())
       subnetwork.nodeWeights[0] = this.nodeWeights[nodes[0]]
-      subnetwork.firstNeighborIndices = new Array<number>(2).fill(0)
-      subnetwork.neighbors = new Array<number>(0)
-      subnetwork.edgeWeights = new Array<number>(0)
+      subnetwork.firstNeighborIndices = createIntegerArray(2, this.usesTypedArrays())
+      subnetwork.neighbors = createIntegerArray(0, this.usesTypedArrays())
+      subnetwork.edgeWeights = createDoubleArray(0, this.usesTypedArrays())
+      subnetwork.edgeAttributes = this.edgeAttributes?.selectRows([])
     } else {
       for (let i = 0; i < nodes.length; i++) {
         subnetworkNodes[nodes[i]] = i
       }
 
       subnetwork.nEdges = 0
-      subnetwork.nodeWeights = new Array<number>(subnetwork.nNodes)
-      subnetwork.firstNeighborIndices = new Array<number>(subnetwork.nNodes + 1).fill(0)
+      subnetwork.nodeWeights = createDoubleArray(subnetwork.nNodes, this.usesTypedArrays())
+      subnetwork.firstNeighborIndices = createIntegerArray(subnetwork.nNodes + 1, this.usesTypedArrays())
+      const edgeRows = new Array<number>(0)
       for (let i = 0; i < subnetwork.nNodes; i++) {
         const j = nodes[i]
         subnetwork.nodeWeights[i] = this.nodeWeights[j]
@@ -947,6 +1741,7 @@ export default class Network {
           if (clustering.clusters[this.neighbors[k]] === cluster) {
             subnetworkNeighbors[subnetwork.nEdges] = subnetworkNodes[this.neighbors[k]]
             subnetworkEdgeWeights[subnetwork.nEdges] = this.edgeWeights[k]
+            if (this.edgeAttributes !== undefined) edgeRows.push(k)
             subnetwork.nEdges++
           }
         }
@@ -954,14 +1749,16 @@ export default class Network {
       }
       subnetwork.neighbors = subnetworkNeighbors.slice(0, subnetwork.nEdges)
       subnetwork.edgeWeights = subnetworkEdgeWeights.slice(0, subnetwork.nEdges)
+      subnetwork.edgeAttributes = this.edgeAttributes?.selectRows(edgeRows)
     }
 
     subnetwork.totalEdgeWeightSelfLinks = 0
+    subnetwork.nodeAttributes = this.nodeAttributes?.selectRows(nodes)
 
     return subnetwork
   }
 
-  private sortEdges (edges: number[][], edgeWeights?: number[]): void {
+  private sortEdges (edges: number[][], edgeWeights?: DoubleArray): void {
     function compareEdges (edges: number[][], i: number, j: number): number {
       if (edges[0][i] > edges[0][j]) return 1
       if (edges[0][i] < edges[0][j]) return -1
@@ -997,3 +1794,7 @@ export default class Network {
     }
   }
 }
+
+function getNetworkBinaryLength (nNodes: number, nEdges: number): number {
+  return BINARY_HEADER_LENGTH + 8 * (nNodes + nEdges) + 4 * (nNodes + 1 + nEdges)
+}
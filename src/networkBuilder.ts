@@ -0,0 +1,339 @@
+import Network from './network'
+
+/**
+ * Policies for handling multiple edges between the same two nodes.
+ */
+export enum DuplicateEdgePolicy {
+  /**
+   * The weight of the edge equals the sum of the weights of the duplicates.
+   */
+  Sum = 'sum',
+
+  /**
+   * The weight of the edge equals the maximum weight of the duplicates.
+   */
+  Max = 'max',
+
+  /**
+   * The weight of the edge equals the mean weight of the duplicates.
+   */
+  Mean = 'mean',
+
+  /**
+   * The weight of the edge equals the weight of the first duplicate.
+   */
+  First = 'first',
+}
+
+/**
+ * Policies for handling self links.
+ */
+export enum SelfLinkPolicy {
+  /**
+   * Self links are kept. Their weights are included in the total edge weight
+   * of self links of the network and, if node weights are set to total edge
+   * weights, in the node weights.
+   */
+  Keep = 'keep',
+
+  /**
+   * Self links are dropped.
+   */
+  Drop = 'drop',
+
+  /**
+   * Adding a self link throws an error.
+   */
+  Error = 'error',
+}
+
+/**
+ * Interface for specifying parameters when constructing a network builder.
+ */
+export interface NetworkBuilderParameters {
+  /**
+   * Policy for handling multiple edges between the same two nodes. By
+   * default, the weights of the duplicates are summed.
+   */
+  duplicateEdgePolicy?: DuplicateEdgePolicy
+
+  /**
+   * Policy for handling self links. By default, self links are dropped.
+   */
+  selfLinkPolicy?: SelfLinkPolicy
+
+  /**
+   * Indicates whether to set the weights of nodes without an explicitly set
+   * weight equal to their total edge weights, including the weights of their
+   * self links. Otherwise these nodes have a weight of 1.
+   */
+  setNodeWeightsToTotalEdgeWeights?: boolean
+
+  /**
+   * Indicates whether to store the network in typed arrays.
+   */
+  useTypedArrays?: boolean
+}
+
+/**
+ * Interface for the result of building a network.
+ */
+export interface NetworkBuilderResult {
+  /**
+   * Network.
+   */
+  network: Network
+
+  /**
+   * ID of each node in the network.
+   */
+  nodeIds: string[]
+
+  /**
+   * Index in the network of each node ID.
+   */
+  nodeIndices: Map<string, number>
+}
+
+/**
+ * Network builder.
+ *
+ * A network builder collects nodes and edges one at a time and builds an
+ * immutable {@link Network} from them. Nodes are identified by IDs. Numeric
+ * IDs are converted to strings, so `1` and `'1'` identify the same node. Nodes
+ * are indexed in the order in which they are first added, either explicitly
+ * using {@link addNode} or implicitly using {@link addEdge}. Edges are
+ * undirected.
+ *
+ * A network builder can be used to build multiple networks, for instance
+ * after adding more edges.
+ */
+export default class NetworkBuilder {
+  /**
+   * Policy for handling multiple edges between the same two nodes.
+   */
+  protected duplicateEdgePolicy: DuplicateEdgePolicy
+
+  /**
+   * Policy for handling self links.
+   */
+  protected selfLinkPolicy: SelfLinkPolicy
+
+  /**
+   * Indicates whether to set node weights equal to total edge weights.
+   */
+  protected setNodeWeightsToTotalEdgeWeights: boolean
+
+  /**
+   * Indicates whether to store the network in typed arrays.
+   */
+  protected useTypedArrays: boolean
+
+  /**
+   * ID of each node.
+   */
+  protected nodeIds: string[] = []
+
+  /**
+   * Index of each node ID.
+   */
+  protected nodeIndices = new Map<string, number>()
+
+  /**
+   * Explicitly set weight of each node, or `undefined` if the weight has not
+   * been set.
+   */
+  protected nodeWeights: (number | undefined)[] = []
+
+  /**
+   * Edge list. Edge `i` connects nodes `edges[0][i]` and `edges[1][i]`, where
+   * `edges[0][i] <= edges[1][i]`.
+   */
+  protected edges: number[][] = [[], []]
+
+  /**
+   * Edge weights.
+   */
+  protected edgeWeights: number[] = []
+
+  /**
+   * Number of duplicates of each edge.
+   */
+  protected nDuplicatesPerEdge: number[] = []
+
+  /**
+   * Index of each edge, with `${node1}-${node2}` as key.
+   */
+  protected edgeIndices = new Map<string, number>()
+
+  /**
+   * Constructs a network builder.
+   *
+   * @param parameters Network builder parameters
+   */
+  public constructor (parameters: NetworkBuilderParameters = {}) {
+    this.duplicateEdgePolicy = parameters.duplicateEdgePolicy ?? DuplicateEdgePolicy.Sum
+    this.selfLinkPolicy = parameters.selfLinkPolicy ?? SelfLinkPolicy.Drop
+    this.setNodeWeightsToTotalEdgeWeights = parameters.setNodeWeightsToTotalEdgeWeights ?? false
+    this.useTypedArrays = parameters.useTypedArrays ?? false
+  }
+
+  /**
+   * Returns the number of nodes.
+   *
+   * @return Number of nodes
+   */
+  public getNNodes (): number {
+    return this.nodeIds.length
+  }
+
+  /**
+   * Returns the number of edges.
+   *
+   * Multiple edges between the same two nodes are counted only once.
+   *
+   * @return Number of edges
+   */
+  public getNEdges (): number {
+    return this.edgeWeights.length
+  }
+
+  /**
+   * Indicates whether a node has been added.
+   *
+   * @param id Node ID
+   *
+   * @return Boolean indicating whether the node has been added
+   */
+  public hasNode (id: string | number): boolean {
+    return this.nodeIndices.has(`${id}`)
+  }
+
+  /**
+   * Adds a node. If the node has already been added, its index is returned.
+   *
+   * @param id     Node ID
+   * @param weight Node weight
+   *
+   * @return Index of the node
+   *
+   * @throws The node weight is not a non-negative finite number.
+   */
+  public addNode (id: string | number, weight?: number): number {
+    let index = this.nodeIndices.get(`${id}`)
+    if (index === undefined) {
+      index = this.nodeIds.length
+      this.nodeIds.push(`${id}`)
+      this.nodeIndices.set(`${id}`, index)
+      this.nodeWeights.push(undefined)
+    }
+    if (weight !== undefined) this.setNodeWeight(id, weight)
+    return index
+  }
+
+  /**
+   * Sets the weight of a node. The node is added if it has not been added
+   * yet.
+   *
+   * @param id     Node ID
+   * @param weight Node weight
+   *
+   * @throws The node weight is not a non-negative finite number.
+   */
+  public setNodeWeight (id: string | number, weight: number): void {
+    checkWeight(weight, 'Node weight')
+    this.nodeWeights[this.addNode(id)] = weight
+  }
+
+  /**
+   * Adds an edge between two nodes. Nodes that have not been added yet are
+   * added.
+   *
+   * If an edge between the two nodes has already been added, the weight of
+   * the edge is determined by the duplicate edge policy. If the two nodes are
+   * the same, the edge is handled according to the self link policy.
+   *
+   * @param id1    ID of the first node
+   * @param id2    ID of the second node
+   * @param weight Edge weight
+   *
+   * @throws The edge weight is not a non-negative finite number, or the edge
+   *         is a self link and the self link policy does not allow self links.
+   */
+  public addEdge (id1: string | number, id2: string | number, weight = 1): void {
+    checkWeight(weight, 'Edge weight')
+    if (`${id1}` === `${id2}`) {
+      if (this.selfLinkPolicy === SelfLinkPolicy.Error) {
+        throw new Error(`Self link of node ${id1} is not allowed.`)
+      }
+      if (this.selfLinkPolicy === SelfLinkPolicy.Drop) {
+        this.addNode(id1)
+        return
+      }
+    }
+
+    let node1 = this.addNode(id1)
+    let node2 = this.addNode(id2)
+    if (node2 < node1) {
+      const oldNode1 = node1
+      node1 = node2
+      node2 = oldNode1
+    }
+    const edgeIndex = this.edgeIndices.get(`${node1}-${node2}`)
+    if (edgeIndex === undefined) {
+      this.edgeIndices.set(`${node1}-${node2}`, this.edgeWeights.length)
+      this.edges[0].push(node1)
+      this.edges[1].push(node2)
+      this.edgeWeights.push(weight)
+      this.nDuplicatesPerEdge.push(1)
+    } else {
+      const nDuplicates = this.nDuplicatesPerEdge[edgeIndex]
+      if (this.duplicateEdgePolicy === DuplicateEdgePolicy.Sum) {
+        this.edgeWeights[edgeIndex] += weight
+      } else if (this.duplicateEdgePolicy === DuplicateEdgePolicy.Max) {
+        this.edgeWeights[edgeIndex] = Math.max(this.edgeWeights[edgeIndex], weight)
+      } else if (this.duplicateEdgePolicy === DuplicateEdgePolicy.Mean) {
+        this.edgeWeights[edgeIndex] += (weight - this.edgeWeights[edgeIndex]) / (nDuplicates + 1)
+      }
+      this.nDuplicatesPerEdge[edgeIndex] = nDuplicates + 1
+    }
+  }
+
+  /**
+   * Builds a network from the nodes and edges that have been added.
+   *
+   * The integrity of the network is checked.
+   *
+   * @return Network and the mapping between node IDs and node indices
+   */
+  public build (): NetworkBuilderResult {
+    const totalEdgeWeightPerNode = new Array<number>(this.nodeIds.length).fill(0)
+    for (let i = 0; i < this.edgeWeights.length; i++) {
+      totalEdgeWeightPerNode[this.edges[0][i]] += this.edgeWeights[i]
+      if (this.edges[0][i] !== this.edges[1][i]) {
+        totalEdgeWeightPerNode[this.edges[1][i]] += this.edgeWeights[i]
+      }
+    }
+    const nodeWeights = this.nodeWeights.map((weight, i) => weight ?? (this.setNodeWeightsToTotalEdgeWeights ? totalEdgeWeightPerNode[i] : 1))
+
+    const network = new Network({
+      nodeWeights: nodeWeights,
+      edges: [this.edges[0].slice(), this.edges[1].slice()],
+      edgeWeights: this.edgeWeights.slice(),
+      sortedEdges: false,
+      checkIntegrity: true,
+      useTypedArrays: this.useTypedArrays,
+    })
+    return {
+      network,
+      nodeIds: this.nodeIds.slice(),
+      nodeIndices: new Map(this.nodeIndices),
+    }
+  }
+}
+
+function checkWeight (weight: number, name: string): void {
+  if (!Number.isFinite(weight) || weight < 0) {
+    throw new Error(`${name} must be a non-negative finite number.`)
+  }
+}
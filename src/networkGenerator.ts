@@ -0,0 +1,499 @@
+import Random from 'java-random'
+import Clustering from './clustering'
+import Network from './network'
+import { matchStubs } from './utils/stubMatching'
+
+/**
+ * Interface for a generated network with a ground truth clustering.
+ */
+export interface NetworkWithGroundTruth {
+  /**
+   * Generated network.
+   */
+  network: Network
+
+  /**
+   * Clustering of the nodes according to which the network was generated.
+   */
+  clustering: Clustering
+}
+
+/**
+ * Interface for specifying parameters of the LFR benchmark.
+ */
+export interface LFRBenchmarkParameters {
+  /**
+   * Number of nodes.
+   */
+  nNodes: number
+
+  /**
+   * Average degree of a node.
+   */
+  averageDegree: number
+
+  /**
+   * Maximum degree of a node.
+   */
+  maxDegree: number
+
+  /**
+   * Mixing parameter, that is, the fraction of the edges of a node that
+   * connect the node to nodes in other clusters.
+   */
+  mixingParameter: number
+
+  /**
+   * Exponent of the power law distribution of the degrees. Defaults to 2.
+   */
+  degreeExponent?: number
+
+  /**
+   * Exponent of the power law distribution of the cluster sizes. Defaults
+   * to 1.
+   */
+  clusterSizeExponent?: number
+
+  /**
+   * Minimum number of nodes in a cluster. Defaults to the minimum degree.
+   */
+  minClusterSize?: number
+
+  /**
+   * Maximum number of nodes in a cluster. Defaults to the maximum degree.
+   */
+  maxClusterSize?: number
+}
+
+/**
+ * Generator of random networks.
+ *
+ * The generated networks are undirected and unweighted, have no self links,
+ * and have node weights of 1. For a given state of the random number
+ * generator, the same network is generated.
+ */
+export default class NetworkGenerator {
+  /**
+   * Constructs a network generator.
+   */
+  // public constructor () {}
+
+  /**
+   * Generates an Erdős–Rényi network, in which each pair of nodes is
+   * connected with the same probability.
+   *
+   * The pairs of nodes that are connected are found by skipping a
+   * geometrically distributed number of pairs, so the time required grows
+   * linearly with the number of nodes and edges.
+   *
+   * @param nNodes          Number of nodes
+   * @param edgeProbability Probability of an edge between two nodes
+   * @param random          Random number generator
+   *
+   * @return Network
+   */
+  public generateErdosRenyiNetwork (nNodes: number, edgeProbability: number, random: Random = new Random()): Network {
+    checkProbability(edgeProbability)
+
+    const edges = [new Array<number>(0), new Array<number>(0)]
+    addRandomEdgesWithinGroup(0, nNodes, edgeProbability, edges, random)
+    return new Network({ nNodes, edges, sortedEdges: false })
+  }
+
+  /**
+   * Generates a Barabási–Albert network using preferential attachment.
+   *
+   * The network starts as a complete network of `nEdgesPerNode + 1` nodes.
+   * Each subsequent node is connected to `nEdgesPerNode` distinct earlier
+   * nodes, selected with a probability proportional to their number of
+   * neighbors.
+   *
+   * @param nNodes        Number of nodes
+   * @param nEdgesPerNode Number of edges added for each node
+   * @param random        Random number generator
+   *
+   * @return Network
+   */
+  public generateBarabasiAlbertNetwork (nNodes: number, nEdgesPerNode: number, random: Random = new Random()): Network {
+    if (nEdgesPerNode < 1) {
+      throw new Error('Number of edges per node must be at least 1.')
+    }
+
+    const edges = [new Array<number>(0), new Array<number>(0)]
+    const nInitialNodes = Math.min(nEdgesPerNode + 1, nNodes)
+    for (let i = 0; i < nInitialNodes; i++) {
+      for (let j = 0; j < i; j++) {
+        edges[0].push(j)
+        edges[1].push(i)
+      }
+    }
+
+    // Each node appears in the list of end points once for each of its
+    // neighbors, so sampling from the list is proportional to the number of
+    // neighbors.
+    const endPoints = edges[0].concat(edges[1])
+    const lastSelection = new Array<number>(nNodes).fill(-1)
+    const targets = new Array<number>(nEdgesPerNode)
+    for (let i = nInitialNodes; i < nNodes; i++) {
+      let nTargets = 0
+      while (nTargets < nEdgesPerNode) {
+        const j = endPoints[random.nextInt(endPoints.length)]
+        if (lastSelection[j] !== i) {
+          lastSelection[j] = i
+          targets[nTargets] = j
+          nTargets++
+        }
+      }
+      for (let j = 0; j < nEdgesPerNode; j++) {
+        edges[0].push(targets[j])
+        edges[1].push(i)
+        endPoints.push(targets[j], i)
+      }
+    }
+
+    return new Network({ nNodes, edges, sortedEdges: false })
+  }
+
+  /**
+   * Generates a network with a specified number of neighbors per node using
+   * the configuration model.
+   *
+   * Each node receives a number of stubs equal to its number of neighbors,
+   * and stubs are matched randomly. Pairs of stubs that would result in a
+   * self link or a duplicate edge are matched again in a limited number of
+   * rounds, after which the remaining stubs are dropped. If the total number
+   * of stubs is odd, one stub is dropped. The realized number of neighbors
+   * of a node may therefore be slightly lower than specified.
+   *
+   * @param nNeighborsPerNode Number of neighbors of each node
+   * @param random            Random number generator
+   *
+   * @return Network
+   */
+  public generateConfigurationModelNetwork (nNeighborsPerNode: number[], random: Random = new Random()): Network {
+    const nNodes = nNeighborsPerNode.length
+    const stubs = new Array<number>(0)
+    for (let i = 0; i < nNodes; i++) {
+      for (let j = 0; j < nNeighborsPerNode[i]; j++) {
+        stubs.push(i)
+      }
+    }
+
+    const edges = [new Array<number>(0), new Array<number>(0)]
+    matchStubs(stubs, nNodes, () => true, edges, new Set<number>(), random)
+    return new Network({ nNodes, edges, sortedEdges: false })
+  }
+
+  /**
+   * Generates a network using a stochastic block model.
+   *
+   * Nodes are assigned to clusters in order, so the first `clusterSizes[0]`
+   * nodes belong to cluster 0, and so on. Two nodes in clusters `i` and `j`
+   * are connected with probability `edgeProbabilities[i][j]`.
+   *
+   * @param clusterSizes      Number of nodes in each cluster
+   * @param edgeProbabilities Probability of an edge between two nodes in each
+   *                          pair of clusters (must be symmetric)
+   * @param random            Random number generator
+   *
+   * @return Network and ground truth clustering
+   */
+  public generateStochasticBlockModelNetwork (clusterSizes: number[], edgeProbabilities: number[][], random: Random = new Random()): NetworkWithGroundTruth {
+    const nClusters = clusterSizes.length
+    if (edgeProbabilities.length !== nClusters || edgeProbabilities.some(probabilities => probabilities.length !== nClusters)) {
+      throw new Error('Edge probabilities must be specified for each pair of clusters.')
+    }
+    for (let i = 0; i < nClusters; i++) {
+      for (let j = 0; j < nClusters; j++) {
+        checkProbability(edgeProbabilities[i][j])
+        if (edgeProbabilities[i][j] !== edgeProbabilities[j][i]) {
+          throw new Error('Edge probabilities must be symmetric.')
+        }
+      }
+    }
+
+    const firstNodes = new Array<number>(nClusters + 1)
+    firstNodes[0] = 0
+    for (let i = 0; i < nClusters; i++) {
+      firstNodes[i + 1] = firstNodes[i] + clusterSizes[i]
+    }
+    const nNodes = firstNodes[nClusters]
+
+    const edges = [new Array<number>(0), new Array<number>(0)]
+    for (let i = 0; i < nClusters; i++) {
+      addRandomEdgesWithinGroup(firstNodes[i], clusterSizes[i], edgeProbabilities[i][i], edges, random)
+      for (let j = i + 1; j < nClusters; j++) {
+        addRandomEdgesBetweenGroups(firstNodes[i], clusterSizes[i], firstNodes[j], clusterSizes[j], edgeProbabilities[i][j], edges, random)
+      }
+    }
+
+    const clusters = new Array<number>(nNodes)
+    for (let i = 0; i < nClusters; i++) {
+      clusters.fill(i, firstNodes[i], firstNodes[i + 1])
+    }
+
+    return {
+      network: new Network({ nNodes, edges, sortedEdges: false }),
+      clustering: new Clustering({ clusters }),
+    }
+  }
+
+  /**
+   * Generates a network using the planted partition model, that is, a
+   * stochastic block model with clusters of equal size, one edge probability
+   * within clusters, and another edge probability between clusters.
+   *
+   * @param nClusters               Number of clusters
+   * @param clusterSize             Number of nodes in each cluster
+   * @param internalEdgeProbability Probability of an edge between two nodes
+   *                                in the same cluster
+   * @param externalEdgeProbability Probability of an edge between two nodes
+   *                                in different clusters
+   * @param random                  Random number generator
+   *
+   * @return Network and ground truth clustering
+   */
+  public generatePlantedPartitionNetwork (nClusters: number, clusterSize: number, internalEdgeProbability: number, externalEdgeProbability: number, random: Random = new Random()): NetworkWithGroundTruth {
+    const clusterSizes = new Array<number>(nClusters).fill(clusterSize)
+    const edgeProbabilities = new Array<number[]>(nClusters)
+    for (let i = 0; i < nClusters; i++) {
+      edgeProbabilities[i] = new Array<number>(nClusters).fill(externalEdgeProbability)
+      edgeProbabilities[i][i] = internalEdgeProbability
+    }
+    return this.generateStochasticBlockModelNetwork(clusterSizes, edgeProbabilities, random)
+  }
+
+  /**
+   * Generates a network using the benchmark of Lancichinetti, Fortunato, and
+   * Radicchi (2008).
+   *
+   * The degrees of the nodes and the sizes of the clusters follow power law
+   * distributions. The minimum degree is chosen such that the expected
+   * average degree equals the specified average degree. Each node is
+   * assigned to a random cluster that is large enough to contain its
+   * internal edges. Nodes are then connected using a configuration model,
+   * first within clusters based on the internal degrees of the nodes, and
+   * then between clusters based on the external degrees of the nodes.
+   * Pairs of stubs that would result in a self link, a duplicate edge, or an
+   * external edge within a cluster are matched again in a limited number of
+   * rounds, after which the remaining stubs are dropped. The realized
+   * degrees and mixing parameter may therefore be slightly lower than
+   * specified.
+   *
+   * @param parameters LFR benchmark parameters
+   * @param random     Random number generator
+   *
+   * @return Network and ground truth clustering
+   */
+  public generateLFRBenchmarkNetwork (parameters: LFRBenchmarkParameters, random: Random = new Random()): NetworkWithGroundTruth {
+    const nNodes = parameters.nNodes
+    const maxDegree = parameters.maxDegree
+    const mixingParameter = parameters.mixingParameter
+    const degreeExponent = parameters.degreeExponent ?? 2
+    const clusterSizeExponent = parameters.clusterSizeExponent ?? 1
+    if (maxDegree >= nNodes) {
+      throw new Error('Maximum degree must be smaller than the number of nodes.')
+    }
+    if (parameters.averageDegree < 1 || parameters.averageDegree > maxDegree) {
+      throw new Error('Average degree must be between 1 and the maximum degree.')
+    }
+    checkProbability(mixingParameter)
+
+    // Find the minimum degree that yields the average degree using bisection.
+    if (calcPowerLawMean(1, maxDegree, degreeExponent) > parameters.averageDegree) {
+      throw new Error('Average degree cannot be obtained with the specified maximum degree and degree exponent.')
+    }
+    let lowerBound = 1
+    let upperBound = maxDegree
+    for (let i = 0; i < 100; i++) {
+      const degree = (lowerBound + upperBound) / 2
+      if (calcPowerLawMean(degree, maxDegree, degreeExponent) < parameters.averageDegree) {
+        lowerBound = degree
+      } else {
+        upperBound = degree
+      }
+    }
+    const minDegree = (lowerBound + upperBound) / 2
+
+    const minClusterSize = parameters.minClusterSize ?? Math.ceil(minDegree)
+    const maxClusterSize = Math.min(parameters.maxClusterSize ?? maxDegree, nNodes)
+    if (minClusterSize < 1 || minClusterSize > maxClusterSize) {
+      throw new Error('Minimum cluster size must be between 1 and the maximum cluster size.')
+    }
+
+    const degrees = new Array<number>(nNodes)
+    for (let i = 0; i < nNodes; i++) {
+      degrees[i] = Math.round(drawFromPowerLaw(minDegree, maxDegree, degreeExponent, random))
+    }
+
+    const clusterSizes = new Array<number>(0)
+    let nNodesInClusters = 0
+    while (nNodesInClusters < nNodes) {
+      const clusterSize = Math.round(drawFromPowerLaw(minClusterSize, maxClusterSize, clusterSizeExponent, random))
+      clusterSizes.push(clusterSize)
+      nNodesInClusters += clusterSize
+    }
+    adjustClusterSizes(clusterSizes, nNodes, minClusterSize, maxClusterSize)
+    const nClusters = clusterSizes.length
+
+    // Assign nodes to clusters in order of decreasing internal degree. The
+    // clusters that are large enough for a node, ordered by decreasing size,
+    // form a growing prefix, from which a cluster with capacity left is
+    // selected randomly.
+    const internalDegrees = degrees.map(degree => Math.round((1 - mixingParameter) * degree))
+    const orderedNodes = [...Array(nNodes).keys()].sort((node1, node2) => internalDegrees[node2] - internalDegrees[node1])
+    const orderedClusters = [...Array(nClusters).keys()].sort((cluster1, cluster2) => clusterSizes[cluster2] - clusterSizes[cluster1])
+    const capacities = clusterSizes.slice()
+    const availableClusters = new Array<number>(0)
+    const clusters = new Array<number>(nNodes)
+    let nConsideredClusters = 0
+    for (let i = 0; i < nNodes; i++) {
+      const j = orderedNodes[i]
+      while (nConsideredClusters < nClusters && clusterSizes[orderedClusters[nConsideredClusters]] > internalDegrees[j]) {
+        availableClusters.push(orderedClusters[nConsideredClusters])
+        nConsideredClusters++
+      }
+      if (availableClusters.length === 0) {
+        availableClusters.push(orderedClusters[nConsideredClusters])
+        nConsideredClusters++
+      }
+      const k = random.nextInt(availableClusters.length)
+      const cluster = availableClusters[k]
+      clusters[j] = cluster
+      internalDegrees[j] = Math.min(internalDegrees[j], clusterSizes[cluster] - 1)
+      capacities[cluster]--
+      if (capacities[cluster] === 0) {
+        availableClusters[k] = availableClusters[availableClusters.length - 1]
+        availableClusters.pop()
+      }
+    }
+
+    const edges = [new Array<number>(0), new Array<number>(0)]
+    const edgeKeys = new Set<number>()
+
+    const internalStubs = new Array<number[]>(nClusters)
+    for (let i = 0; i < nClusters; i++) {
+      internalStubs[i] = []
+    }
+    const externalStubs = new Array<number>(0)
+    for (let i = 0; i < nNodes; i++) {
+      for (let j = 0; j < internalDegrees[i]; j++) {
+        internalStubs[clusters[i]].push(i)
+      }
+      for (let j = internalDegrees[i]; j < degrees[i]; j++) {
+        externalStubs.push(i)
+      }
+    }
+    for (let i = 0; i < nClusters; i++) {
+      matchStubs(internalStubs[i], nNodes, () => true, edges, edgeKeys, random)
+    }
+    matchStubs(externalStubs, nNodes, (node1, node2) => clusters[node1] !== clusters[node2], edges, edgeKeys, random)
+
+    return {
+      network: new Network({ nNodes, edges, sortedEdges: false }),
+      clustering: new Clustering({ clusters }),
+    }
+  }
+}
+
+function checkProbability (probability: number): void {
+  if (!(probability >= 0 && probability <= 1)) {
+    throw new Error('Probability must be between 0 and 1.')
+  }
+}
+
+function drawNPairsToSkip (edgeProbability: number, random: Random): number {
+  return (edgeProbability < 1) ? Math.floor(Math.log(1 - random.nextDouble()) / Math.log(1 - edgeProbability)) : 0
+}
+
+function addRandomEdgesWithinGroup (firstNode: number, nNodes: number, edgeProbability: number, edges: number[][], random: Random): void {
+  if (edgeProbability === 0) {
+    return
+  }
+  let i = 1
+  let j = -1
+  while (i < nNodes) {
+    j += 1 + drawNPairsToSkip(edgeProbability, random)
+    while (j >= i && i < nNodes) {
+      j -= i
+      i++
+    }
+    if (i < nNodes) {
+      edges[0].push(firstNode + j)
+      edges[1].push(firstNode + i)
+    }
+  }
+}
+
+function addRandomEdgesBetweenGroups (firstNode1: number, nNodes1: number, firstNode2: number, nNodes2: number, edgeProbability: number, edges: number[][], random: Random): void {
+  if (edgeProbability === 0) {
+    return
+  }
+  const nPairs = nNodes1 * nNodes2
+  let i = drawNPairsToSkip(edgeProbability, random)
+  while (i < nPairs) {
+    edges[0].push(firstNode1 + Math.floor(i / nNodes2))
+    edges[1].push(firstNode2 + i % nNodes2)
+    i += 1 + drawNPairsToSkip(edgeProbability, random)
+  }
+}
+
+function calcPowerLawMean (minValue: number, maxValue: number, exponent: number): number {
+  if (minValue === maxValue) {
+    return minValue
+  }
+  if (exponent === 1) {
+    return (maxValue - minValue) / Math.log(maxValue / minValue)
+  }
+  if (exponent === 2) {
+    return Math.log(maxValue / minValue) / (1 / minValue - 1 / maxValue)
+  }
+  return (1 - exponent) / (2 - exponent) * (Math.pow(maxValue, 2 - exponent) - Math.pow(minValue, 2 - exponent)) / (Math.pow(maxValue, 1 - exponent) - Math.pow(minValue, 1 - exponent))
+}
+
+function drawFromPowerLaw (minValue: number, maxValue: number, exponent: number, random: Random): number {
+  const u = random.nextDouble()
+  if (exponent === 1) {
+    return minValue * Math.pow(maxValue / minValue, u)
+  }
+  const a = Math.pow(minValue, 1 - exponent)
+  const b = Math.pow(maxValue, 1 - exponent)
+  return Math.pow(a + (b - a) * u, 1 / (1 - exponent))
+}
+
+function adjustClusterSizes (clusterSizes: number[], nNodes: number, minClusterSize: number, maxClusterSize: number): void {
+  let nNodesInClusters = clusterSizes.reduce((sum, clusterSize) => sum + clusterSize, 0)
+  let i = 0
+  let nUnchangedClusters = 0
+  while (nNodesInClusters > nNodes) {
+    if (nUnchangedClusters === clusterSizes.length) {
+      nNodesInClusters -= clusterSizes.pop() as number
+      nUnchangedClusters = 0
+    } else {
+      i = i % clusterSizes.length
+      if (clusterSizes[i] > minClusterSize) {
+        clusterSizes[i]--
+        nNodesInClusters--
+        nUnchangedClusters = 0
+      } else {
+        nUnchangedClusters++
+      }
+      i++
+    }
+  }
+  nUnchangedClusters = 0
+  while (nNodesInClusters < nNodes) {
+    if (nUnchangedClusters === clusterSizes.length) {
+      throw new Error('Cluster sizes cannot be obtained with the specified minimum and maximum cluster size.')
+    }
+    i = i % clusterSizes.length
+    if (clusterSizes[i] < maxClusterSize) {
+      clusterSizes[i]++
+      nNodesInClusters++
+      nUnchangedClusters = 0
+    } else {
+      nUnchangedClusters++
+    }
+    i++
+  }
+}
@@ -0,0 +1,269 @@
+import Network from './network'
+import { calcAverage, calcMaximum, calcMinimum } from './utils/arrays'
+
+/**
+ * Interface for descriptive statistics of the distribution of a quantity.
+ */
+export interface DistributionStatistics {
+  /**
+   * Number of values.
+   */
+  n: number
+
+  /**
+   * Minimum value.
+   */
+  minimum: number
+
+  /**
+   * Maximum value.
+   */
+  maximum: number
+
+  /**
+   * Mean value.
+   */
+  mean: number
+
+  /**
+   * Median value.
+   */
+  median: number
+
+  /**
+   * Standard deviation of the values.
+   */
+  standardDeviation: number
+
+  /**
+   * Value at each of the percentiles of the report.
+   */
+  percentileValues: number[]
+}
+
+/**
+ * Interface for a report of descriptive statistics of a network.
+ */
+export interface NetworkStatisticsReport {
+  /**
+   * Number of nodes.
+   */
+  nNodes: number
+
+  /**
+   * Number of edges.
+   */
+  nEdges: number
+
+  /**
+   * Total node weight.
+   */
+  totalNodeWeight: number
+
+  /**
+   * Total edge weight.
+   */
+  totalEdgeWeight: number
+
+  /**
+   * Total edge weight of self links.
+   */
+  totalEdgeWeightSelfLinks: number
+
+  /**
+   * Density, that is, the number of edges divided by the number of pairs of
+   * nodes.
+   */
+  density: number
+
+  /**
+   * Average degree.
+   */
+  averageDegree: number
+
+  /**
+   * Average weighted degree, that is, the average total edge weight of a
+   * node.
+   */
+  averageWeightedDegree: number
+
+  /**
+   * Number of nodes without neighbors.
+   */
+  nIsolatedNodes: number
+
+  /**
+   * Number of connected components.
+   */
+  nComponents: number
+
+  /**
+   * Number of nodes in each connected component, in decreasing order.
+   */
+  componentSizes: number[]
+
+  /**
+   * Fraction of the nodes that belong to the largest connected component.
+   */
+  fractionNodesLargestComponent: number
+
+  /**
+   * Percentiles for which the value is reported in each distribution.
+   */
+  percentiles: number[]
+
+  /**
+   * Number of nodes with each degree. Element `k` is the number of nodes
+   * with degree `k`.
+   */
+  degreeCounts: number[]
+
+  /**
+   * Distribution of the degrees of the nodes.
+   */
+  degreeDistribution: DistributionStatistics
+
+  /**
+   * Distribution of the strengths, or weighted degrees, of the nodes.
+   */
+  strengthDistribution: DistributionStatistics
+
+  /**
+   * Distribution of the edge weights. Each edge is counted once.
+   */
+  edgeWeightDistribution: DistributionStatistics
+}
+
+/**
+ * Calculator of descriptive statistics of a network.
+ *
+ * The statistics are calculated for the undirected network. Self links are
+ * not included in the degrees and strengths of the nodes, in line with
+ * {@link Network.getTotalEdgeWeightPerNode}. Percentiles are calculated using
+ * linear interpolation between the closest ranks.
+ */
+export default class NetworkStatisticsCalculator {
+  /**
+   * Default percentiles.
+   */
+  public static readonly DEFAULT_PERCENTILES: number[] = [5, 25, 50, 75, 95]
+
+  /**
+   * Percentiles.
+   */
+  protected percentiles: number[]
+
+  /**
+   * Constructs a network statistics calculator.
+   *
+   * @param percentiles Percentiles, between 0 and 100
+   */
+  public constructor (percentiles = NetworkStatisticsCalculator.DEFAULT_PERCENTILES) {
+    this.percentiles = []
+    this.setPercentiles(percentiles)
+  }
+
+  /**
+   * Returns the percentiles.
+   *
+   * @return Percentiles
+   */
+  public getPercentiles (): number[] {
+    return this.percentiles.slice()
+  }
+
+  /**
+   * Sets the percentiles.
+   *
+   * @param percentiles Percentiles, between 0 and 100
+   *
+   * @throws A percentile is not between 0 and 100.
+   */
+  public setPercentiles (percentiles: number[]): void {
+    percentiles.forEach(percentile => {
+      if (!(percentile >= 0 && percentile <= 100)) {
+        throw new Error('Percentiles must be between 0 and 100.')
+      }
+    })
+    this.percentiles = percentiles.slice()
+  }
+
+  /**
+   * Calculates descriptive statistics of a network.
+   *
+   * @param network Network
+   *
+   * @return Report of descriptive statistics
+   */
+  public calcStatistics (network: Network): NetworkStatisticsReport {
+    const nNodes = network.getNNodes()
+    const nEdges = network.getNEdges()
+    const degrees = network.getNNeighborsPerNode()
+    const strengths = network.getTotalEdgeWeightPerNode()
+
+    const edgeWeights = new Array<number>(0)
+    for (let i = 0; i < nNodes; i++) {
+      for (let j = network.firstNeighborIndices[i]; j < network.firstNeighborIndices[i + 1]; j++) {
+        if (network.neighbors[j] > i) {
+          edgeWeights.push(network.edgeWeights[j])
+        }
+      }
+    }
+
+    const degreeCounts = new Array<number>(nNodes > 0 ? calcMaximum(degrees) + 1 : 0).fill(0)
+    degrees.forEach(degree => degreeCounts[degree]++)
+
+    const components = network.identifyComponents()
+    const componentSizes = components.getNNodesPerCluster()
+
+    return {
+      nNodes,
+      nEdges,
+      totalNodeWeight: network.getTotalNodeWeight(),
+      totalEdgeWeight: network.getTotalEdgeWeight(),
+      totalEdgeWeightSelfLinks: network.getTotalEdgeWeightSelfLinks(),
+      density: nNodes > 1 ? 2 * nEdges / (nNodes * (nNodes - 1)) : 0,
+      averageDegree: nNodes > 0 ? 2 * nEdges / nNodes : 0,
+      averageWeightedDegree: nNodes > 0 ? 2 * network.getTotalEdgeWeight() / nNodes : 0,
+      nIsolatedNodes: nNodes > 0 ? degreeCounts[0] : 0,
+      nComponents: components.getNClusters(),
+      componentSizes,
+      fractionNodesLargestComponent: nNodes > 0 ? componentSizes[0] / nNodes : 0,
+      percentiles: this.percentiles.slice(),
+      degreeCounts,
+      degreeDistribution: this.calcDistributionStatistics(degrees),
+      strengthDistribution: this.calcDistributionStatistics(strengths),
+      edgeWeightDistribution: this.calcDistributionStatistics(edgeWeights),
+    }
+  }
+
+  private calcDistributionStatistics (values: number[]): DistributionStatistics {
+    const n = values.length
+    if (n === 0) {
+      return { n, minimum: NaN, maximum: NaN, mean: NaN, median: NaN, standardDeviation: NaN, percentileValues: this.percentiles.map(() => NaN) }
+    }
+
+    const sortedValues = values.slice().sort((a, b) => a - b)
+    const mean = calcAverage(values)
+    let sumSquaredDeviations = 0
+    for (let i = 0; i < n; i++) {
+      sumSquaredDeviations += (values[i] - mean) * (values[i] - mean)
+    }
+    return {
+      n,
+      minimum: calcMinimum(values),
+      maximum: calcMaximum(values),
+      mean,
+      median: calcPercentile(sortedValues, 50),
+      standardDeviation: Math.sqrt(sumSquaredDeviations / n),
+      percentileValues: this.percentiles.map(percentile => calcPercentile(sortedValues, percentile)),
+    }
+  }
+}
+
+function calcPercentile (sortedValues: number[], percentile: number): number {
+  const rank = percentile / 100 * (sortedValues.length - 1)
+  const i = Math.floor(rank)
+  if (i + 1 >= sortedValues.length) return sortedValues[sortedValues.length - 1]
+  return sortedValues[i] + (rank - i) * (sortedValues[i + 1] - sortedValues[i])
+}
@@ -0,0 +1,228 @@
+import Random from 'java-random'
+import Clustering from './clustering'
+import Network from './network'
+import QualityClusteringAlgorithm from './qualityClusteringAlgorithm'
+
+/**
+ * Null models for generating randomized networks.
+ */
+export enum NullModel {
+  /**
+   * Edges are rewired while preserving the number of neighbors of each
+   * node. See {@link Network.createRewiredNetwork}.
+   */
+  DegreePreservingRewiring = 'degree-preserving rewiring',
+
+  /**
+   * Edges are rewired while preserving the number of neighbors and the total
+   * edge weight of each node. See
+   * {@link Network.createRewiredNetworkPreservingStrength}.
+   */
+  StrengthPreservingRewiring = 'strength-preserving rewiring',
+
+  /**
+   * Random networks with the same number of neighbors per node are sampled
+   * using the configuration model, and edge weights are redistributed to
+   * preserve the total edge weight of each node. See
+   * {@link Network.createConfigurationModelNetwork}.
+   */
+  ConfigurationModel = 'configuration model',
+}
+
+/**
+ * Interface for the z-score of the quality of a clustering.
+ */
+export interface QualityZScore {
+  /**
+   * Quality of the clustering in the network.
+   */
+  quality: number
+
+  /**
+   * Quality of the clustering in each randomized network.
+   */
+  randomizedQualities: number[]
+
+  /**
+   * Mean quality of the clustering in the randomized networks.
+   */
+  mean: number
+
+  /**
+   * Standard deviation of the quality of the clustering in the randomized
+   * networks.
+   */
+  standardDeviation: number
+
+  /**
+   * Number of standard deviations by which the quality of the clustering in
+   * the network exceeds the mean quality in the randomized networks.
+   */
+  zScore: number
+}
+
+/**
+ * Calculator of the z-score of the quality of a clustering.
+ *
+ * The quality of a clustering in a network is compared with the quality of
+ * the same clustering in randomized networks generated using a null model.
+ * A high z-score indicates that the quality of the clustering reflects the
+ * structure of the network rather than, for instance, the number of
+ * neighbors of the nodes. If the qualities in the randomized networks all
+ * have the same value, the standard deviation is 0 and the z-score is not
+ * finite.
+ */
+export default class QualityZScoreCalculator {
+  /**
+   * Default number of randomized networks.
+   */
+  public static readonly DEFAULT_N_RANDOMIZED_NETWORKS: number = 100
+
+  /**
+   * Default number of attempted swaps per edge when rewiring edges.
+   */
+  public static readonly DEFAULT_N_SWAPS_PER_EDGE: number = 10
+
+  /**
+   * Null model.
+   */
+  protected nullModel: NullModel
+
+  /**
+   * Number of randomized networks.
+   */
+  protected nRandomizedNetworks: number
+
+  /**
+   * Number of attempted swaps per edge when rewiring edges.
+   */
+  protected nSwapsPerEdge: number
+
+  /**
+   * Constructs a quality z-score calculator.
+   *
+   * @param nullModel           Null model
+   * @param nRandomizedNetworks Number of randomized networks
+   * @param nSwapsPerEdge       Number of attempted swaps per edge when
+   *                            rewiring edges
+   */
+  public constructor (nullModel = NullModel.DegreePreservingRewiring, nRandomizedNetworks = QualityZScoreCalculator.DEFAULT_N_RANDOMIZED_NETWORKS, nSwapsPerEdge = QualityZScoreCalculator.DEFAULT_N_SWAPS_PER_EDGE) {
+    this.nullModel = nullModel
+    this.nRandomizedNetworks = nRandomizedNetworks
+    this.nSwapsPerEdge = nSwapsPerEdge
+  }
+
+  /**
+   * Returns the null model.
+   *
+   * @return Null model
+   */
+  public getNullModel (): NullModel {
+    return this.nullModel
+  }
+
+  /**
+   * Returns the number of randomized networks.
+   *
+   * @return Number of randomized networks
+   */
+  public getNRandomizedNetworks (): number {
+    return this.nRandomizedNetworks
+  }
+
+  /**
+   * Returns the number of attempted swaps per edge when rewiring edges.
+   *
+   * @return Number of attempted swaps per edge
+   */
+  public getNSwapsPerEdge (): number {
+    return this.nSwapsPerEdge
+  }
+
+  /**
+   * Sets the null model.
+   *
+   * @param nullModel Null model
+   */
+  public setNullModel (nullModel: NullModel): void {
+    this.nullModel = nullModel
+  }
+
+  /**
+   * Sets the number of randomized networks.
+   *
+   * @param nRandomizedNetworks Number of randomized networks
+   */
+  public setNRandomizedNetworks (nRandomizedNetworks: number): void {
+    this.nRandomizedNetworks = nRandomizedNetworks
+  }
+
+  /**
+   * Sets the number of attempted swaps per edge when rewiring edges.
+   *
+   * @param nSwapsPerEdge Number of attempted swaps per edge
+   */
+  public setNSwapsPerEdge (nSwapsPerEdge: number): void {
+    this.nSwapsPerEdge = nSwapsPerEdge
+  }
+
+  /**
+   * Creates a randomized network using the null model.
+   *
+   * @param network Network
+   * @param random  Random number generator
+   *
+   * @return Randomized network
+   */
+  public createRandomizedNetwork (network: Network, random: Random = new Random()): Network {
+    if (this.nullModel === NullModel.StrengthPreservingRewiring) {
+      return network.createRewiredNetworkPreservingStrength(this.nSwapsPerEdge, random)
+    } else if (this.nullModel === NullModel.ConfigurationModel) {
+      return network.createConfigurationModelNetwork(random)
+    }
+    return network.createRewiredNetwork(this.nSwapsPerEdge, random)
+  }
+
+  /**
+   * Calculates the z-score of the quality of a clustering of the nodes in a
+   * network.
+   *
+   * @param algorithm  Algorithm whose quality function is used
+   * @param network    Network
+   * @param clustering Clustering
+   * @param random     Random number generator
+   *
+   * @return Z-score of the quality of the clustering
+   */
+  public calcZScore (algorithm: QualityClusteringAlgorithm, network: Network, clustering: Clustering, random: Random = new Random()): QualityZScore {
+    if (this.nRandomizedNetworks < 2) {
+      throw new Error('Number of randomized networks must be at least 2.')
+    }
+
+    const quality = algorithm.calcQuality(network, clustering)
+    const randomizedQualities = new Array<number>(this.nRandomizedNetworks)
+    for (let i = 0; i < this.nRandomizedNetworks; i++) {
+      randomizedQualities[i] = algorithm.calcQuality(this.createRandomizedNetwork(network, random), clustering)
+    }
+
+    let mean = 0
+    for (let i = 0; i < this.nRandomizedNetworks; i++) {
+      mean += randomizedQualities[i]
+    }
+    mean /= this.nRandomizedNetworks
+    let variance = 0
+    for (let i = 0; i < this.nRandomizedNetworks; i++) {
+      variance += (randomizedQualities[i] - mean) * (randomizedQualities[i] - mean)
+    }
+    variance /= this.nRandomizedNetworks - 1
+    const standardDeviation = Math.sqrt(variance)
+
+    return {
+      quality,
+      randomizedQualities,
+      mean,
+      standardDeviation,
+      zScore: (quality - mean) / standardDeviation,
+    }
+  }
+}
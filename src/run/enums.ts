@@ -22,6 +22,15 @@ export enum LayoutQualityFunctions {
   LinLog = 'LinLog',
 }
 
+/**
+ * Backbone extraction methods.
+ */
+export enum BackboneMethods {
+  NoBackbone = 'No backbone',
+  DisparityFilter = 'Disparity filter',
+  NoiseCorrected = 'Noise-corrected backbone',
+}
+
 /**
  * Normalization methods.
  */
@@ -29,4 +38,7 @@ export enum NormalizationMethods {
   NoNormalization = 'No normalization',
   AssociationStrength = 'Association strength',
   Fractionalization = 'Fractionalization',
+  CosineSimilarity = 'Cosine similarity',
+  JaccardIndex = 'Jaccard index',
+  InclusionIndex = 'Inclusion index',
 }
@@ -6,8 +6,9 @@
 import NetworkAnalysis from './networkAnalysis'
 import NetworkClustering from './networkClustering'
 import NetworkLayout from './networkLayout'
+import NetworkStatistics from './networkStatistics'
 import NetworkHelper from './networkHelper'
-import { ClusteringQualityFunctions, ClusteringAlgorithms, LayoutQualityFunctions, NormalizationMethods } from './enums'
+import { BackboneMethods, ClusteringQualityFunctions, ClusteringAlgorithms, LayoutQualityFunctions, NormalizationMethods } from './enums'
 import type { Node, Link } from './types'
 
 export {
@@ -17,8 +18,10 @@ export {
   ClusteringAlgorithms,
   NetworkLayout,
   LayoutQualityFunctions,
+  NetworkStatistics,
   NetworkHelper,
   NormalizationMethods,
+  BackboneMethods,
 }
 
 export type {
@@ -1,8 +1,14 @@
 import NetworkHelper from './networkHelper'
+import { BackboneMethods } from './enums'
+import BackboneExtractionAlgorithm from '../backboneExtractionAlgorithm'
+import Network from '../network'
 import type { Node, Link } from './types'
 
 export default abstract class NetworkAnalysis {
   protected _networkHelper: NetworkHelper | undefined
+  protected _keepSelfLinks = true
+  protected _backbone: BackboneMethods = BackboneMethods.NoBackbone
+  protected _backboneThreshold: number | undefined
 
   /**
    * Initialize network data.
@@ -12,6 +18,49 @@ export default abstract class NetworkAnalysis {
     return this
   }
 
+  /**
+   * Whether to keep self links, that is, links from a node to itself. Self
+   * links are kept by default. They are included in the node weights and in
+   * the quality function.
+   */
+  public selfLinks (value: boolean): this {
+    this._keepSelfLinks = value
+    return this
+  }
+
+  /**
+   * Method for extracting the backbone of the network before running the
+   * analysis. Either the disparity filter or the noise-corrected backbone can
+   * be used. By default, no backbone is extracted. Self links are retained.
+   * The node weights are not affected by backbone extraction, except when
+   * clustering using modularity, in which case the weight of the removed
+   * edges is subtracted from the node weights.
+   */
+  public backbone (value: keyof typeof BackboneMethods): this {
+    this._backbone = BackboneMethods[value]
+    return this
+  }
+
+  /**
+   * Threshold for backbone extraction. For the disparity filter, this is the
+   * significance level, which is 0.05 by default. For the noise-corrected
+   * backbone, this is the minimum score of an edge, which is 1.64 by default.
+   */
+  public backboneThreshold (value: number): this {
+    this._backboneThreshold = value
+    return this
+  }
+
+  protected extractBackbone (network: Network): Network {
+    const algorithm = new BackboneExtractionAlgorithm()
+    if (this._backbone === BackboneMethods.DisparityFilter) {
+      return algorithm.extractBackboneUsingDisparityFilter(network, this._backboneThreshold ?? BackboneExtractionAlgorithm.DEFAULT_SIGNIFICANCE_LEVEL).network
+    } else if (this._backbone === BackboneMethods.NoiseCorrected) {
+      return algorithm.extractBackboneUsingNoiseCorrection(network, this._backboneThreshold ?? BackboneExtractionAlgorithm.DEFAULT_SCORE_THRESHOLD).network
+    }
+    return network
+  }
+
   /**
    * Run network analysis.
    */
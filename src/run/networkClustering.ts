@@ -1,17 +1,19 @@
 /* eslint-disable no-console */
 import Random from 'java-random'
 import NetworkAnalysis from './networkAnalysis'
-import { ClusteringQualityFunctions, ClusteringAlgorithms, NormalizationMethods } from './enums'
+import { BackboneMethods, ClusteringQualityFunctions, ClusteringAlgorithms, NormalizationMethods } from './enums'
 import CPMClusteringAlgorithm from '../CPMClusteringAlgorithm'
 import IterativeCPMClusteringAlgorithm from '../iterativeCPMClusteringAlgorithm'
 import LouvainAlgorithm from '../louvainAlgorithm'
 import LeidenAlgorithm from '../leidenAlgorithm'
 import Clustering from '../clustering'
+import Network from '../network'
 
 /**
  * Class for running the Leiden and Louvain algorithms for network clustering.
  */
 export default class NetworkClustering extends NetworkAnalysis {
+  private _directed = false
   private _useModularity = false
   private _normalization: NormalizationMethods = NormalizationMethods.NoNormalization
   private _resolution = CPMClusteringAlgorithm.DEFAULT_RESOLUTION
@@ -23,6 +25,17 @@ export default class NetworkClustering extends NetworkAnalysis {
   private _useSeed = false
   private _seed = 0
 
+  /**
+   * Whether links are treated as directed, running from `node1` to `node2`.
+   * For directed networks, the directed variants of the CPM and the
+   * modularity quality functions are used. Normalization of edge weights is
+   * not supported for directed networks.
+   */
+  public directed (value: boolean): this {
+    this._directed = value
+    return this
+  }
+
   /**
    * Quality function to be optimized. Either the CPM (constant Potts model) or
    * the modularity quality function can be used.
@@ -106,8 +119,37 @@ export default class NetworkClustering extends NetworkAnalysis {
       throw new Error('Network data is not initialized.')
     }
 
-    let network = this._networkHelper.getNetwork()
-    console.log(`Network consists of ${network.getNNodes()} nodes and ${network.getNEdges()} edges with a total edge weight of ${network.getTotalEdgeWeight()}.`)
+    if (this._directed && !this._useModularity && this._normalization !== NormalizationMethods.NoNormalization) {
+      throw new Error('Normalization of edge weights is not supported for directed networks.')
+    }
+    if (this._directed && this._backbone !== BackboneMethods.NoBackbone) {
+      throw new Error('Backbone extraction is not supported for directed networks.')
+    }
+
+    let network: Network
+    if (this._directed) {
+      const directedNetwork = this._networkHelper.getDirectedNetwork(this._keepSelfLinks)
+      console.log(`Directed network consists of ${directedNetwork.getNNodes()} nodes and ${directedNetwork.getNArcs()} arcs with a total arc weight of ${directedNetwork.getTotalArcWeight()}.`)
+      network = directedNetwork
+    } else {
+      network = this._networkHelper.getNetwork(this._keepSelfLinks)
+      console.log(`Network consists of ${network.getNNodes()} nodes and ${network.getNEdges()} edges with a total edge weight of ${network.getTotalEdgeWeight()}.`)
+    }
+    console.log(`Total edge weight of self links is ${network.getTotalEdgeWeightSelfLinks()}${this._keepSelfLinks ? '' : ' (self links are dropped)'}.`)
+    if (this._backbone !== BackboneMethods.NoBackbone) {
+      const backbone = this.extractBackbone(network)
+      if (this._useModularity) {
+        // For modularity, node weights must equal total edge weights, so the weight of the removed edges is subtracted.
+        const totalEdgeWeightPerNode = network.getTotalEdgeWeightPerNode()
+        const backboneTotalEdgeWeightPerNode = backbone.getTotalEdgeWeightPerNode()
+        const nodeWeights = network.getNodeWeights().map((nodeWeight, i) => nodeWeight - totalEdgeWeightPerNode[i] + backboneTotalEdgeWeightPerNode[i])
+        network = backbone.createNetworkUsingTypedArrays(backbone.usesTypedArrays())
+        network.nodeWeights = nodeWeights
+      } else {
+        network = backbone
+      }
+      console.log(`Backbone extracted using ${this._backbone} consists of ${network.getNEdges()} edges with a total edge weight of ${network.getTotalEdgeWeight()}.`)
+    }
 
     let initialClustering = this._networkHelper.getInitialClustering()
     if (initialClustering !== undefined) {
@@ -135,9 +177,15 @@ export default class NetworkClustering extends NetworkAnalysis {
         network = network.createNormalizedNetworkUsingAssociationStrength()
       } else if (this._normalization === NormalizationMethods.Fractionalization) {
         network = network.createNormalizedNetworkUsingFractionalization()
+      } else if (this._normalization === NormalizationMethods.CosineSimilarity) {
+        network = network.createNormalizedNetworkUsingCosineSimilarity()
+      } else if (this._normalization === NormalizationMethods.JaccardIndex) {
+        network = network.createNormalizedNetworkUsingJaccardIndex()
+      } else if (this._normalization === NormalizationMethods.InclusionIndex) {
+        network = network.createNormalizedNetworkUsingInclusionIndex()
       }
     }
-    const resolution2 = this._useModularity ? (this._resolution / (2 * network.getTotalEdgeWeight() + network.getTotalEdgeWeightSelfLinks())) : this._resolution
+    const resolution2 = this._useModularity ? (this._resolution / network.getTotalNodeWeight()) : this._resolution
     const random = this._useSeed ? new Random(this._seed) : new Random()
     let algorithm: IterativeCPMClusteringAlgorithm
     if (this._useLouvain) {
@@ -1,64 +1,21 @@
 import Clustering from '../clustering'
+import DirectedNetwork from '../directedNetwork'
 import Layout from '../layout'
 import Network from '../network'
+import NetworkBuilder, { DuplicateEdgePolicy, SelfLinkPolicy } from '../networkBuilder'
 import type { Node, Link } from './types'
 
 export default class NetworkHelper {
   private _nodes: Node[]
-  private _network: Network
+  private _links: Link[]
+  private _networks = new Map<boolean, Network>()
+  private _directedNetworks = new Map<boolean, DirectedNetwork>()
   private _initialClustering: Clustering | undefined
   private _initialLayout: Layout | undefined
 
   public constructor (nodes: Node[], links: Link[]) {
     this._nodes = nodes
-
-    // Deduplicate links and convert them to an edge list.
-    const nodeIdToIndex: { [key: string]: number } = {}
-    nodes.forEach((node, index) => {
-      nodeIdToIndex[node.id] = index
-    })
-    const edgeContainer: { [key: string]: { node1Index: number, node2Index: number, weight: number } } = {}
-    links.forEach(link => {
-      let node1Index = nodeIdToIndex[link.node1.id]
-      let node2Index = nodeIdToIndex[link.node2.id]
-      if (node1Index !== node2Index) {
-        const weight = link.weight ?? 1
-        if (node2Index < node1Index) {
-          const oldNode1Index = node1Index
-          node1Index = node2Index
-          node2Index = oldNode1Index
-        }
-        if (edgeContainer[`${node1Index}-${node2Index}`]) {
-          edgeContainer[`${node1Index}-${node2Index}`].weight += weight
-        } else {
-          edgeContainer[`${node1Index}-${node2Index}`] = { node1Index, node2Index, weight }
-        }
-      }
-    })
-    const edgeList = Object.values(edgeContainer)
-
-    // Create network object.
-    let nNodes = this._nodes.length
-    const nEdges = edgeList.length
-    const edges = new Array<number[]>(2)
-    edges[0] = new Array<number>(nEdges)
-    edges[1] = new Array<number>(nEdges)
-    const edgeWeights = new Array<number>(nEdges)
-    edgeList.forEach((edge, i) => {
-      edges[0][i] = edge.node1Index
-      edges[1][i] = edge.node2Index
-      edgeWeights[i] = edge.weight
-      if (edge.node1Index > nNodes) nNodes = edge.node1Index + 1
-      if (edge.node2Index > nNodes) nNodes = edge.node2Index + 1
-    })
-    this._network = new Network({
-      nNodes: nNodes,
-      setNodeWeightsToTotalEdgeWeights: true,
-      edges: edges,
-      edgeWeights: edgeWeights,
-      sortedEdges: false,
-      checkIntegrity: false,
-    })
+    this._links = links
 
     // Create initial clustering object.
     const clusters = nodes.map(node => Number(node.cluster))
@@ -82,8 +39,57 @@ export default class NetworkHelper {
     if (!coordinates[0].includes(NaN) && !coordinates[1].includes(NaN)) this._initialLayout = new Layout({ coordinates })
   }
 
-  public getNetwork (): Network {
-    return this._network
+  public getNetwork (keepSelfLinks = true): Network {
+    let network = this._networks.get(keepSelfLinks)
+    if (network === undefined) {
+      // Deduplicate links and create network object. Self links are included in the node weights.
+      const networkBuilder = new NetworkBuilder({
+        duplicateEdgePolicy: DuplicateEdgePolicy.Sum,
+        selfLinkPolicy: keepSelfLinks ? SelfLinkPolicy.Keep : SelfLinkPolicy.Drop,
+        setNodeWeightsToTotalEdgeWeights: true,
+      })
+      this._nodes.forEach(node => networkBuilder.addNode(node.id))
+      this._links.forEach(link => networkBuilder.addEdge(link.node1.id, link.node2.id, link.weight ?? 1))
+      network = networkBuilder.build().network
+      this._networks.set(keepSelfLinks, network)
+    }
+    return network
+  }
+
+  public getDirectedNetwork (keepSelfLinks = true): DirectedNetwork {
+    let directedNetwork = this._directedNetworks.get(keepSelfLinks)
+    if (directedNetwork === undefined) {
+      // Convert links to an arc list. Duplicate arcs are merged by the directed network.
+      const nodeIdToIndex: { [key: string]: number } = {}
+      this._nodes.forEach((node, index) => {
+        nodeIdToIndex[node.id] = index
+      })
+      const arcs = [new Array<number>(0), new Array<number>(0)]
+      const arcWeights = new Array<number>(0)
+      const outNodeWeights = new Array<number>(this._nodes.length).fill(0)
+      const inNodeWeights = new Array<number>(this._nodes.length).fill(0)
+      this._links.forEach(link => {
+        const node1Index = nodeIdToIndex[link.node1.id]
+        const node2Index = nodeIdToIndex[link.node2.id]
+        if (keepSelfLinks || node1Index !== node2Index) {
+          const weight = link.weight ?? 1
+          arcs[0].push(node1Index)
+          arcs[1].push(node2Index)
+          arcWeights.push(weight)
+          outNodeWeights[node1Index] += weight
+          inNodeWeights[node2Index] += weight
+        }
+      })
+      directedNetwork = new DirectedNetwork({
+        outNodeWeights: outNodeWeights,
+        inNodeWeights: inNodeWeights,
+        arcs: arcs,
+        arcWeights: arcWeights,
+        checkIntegrity: false,
+      })
+      this._directedNetworks.set(keepSelfLinks, directedNetwork)
+    }
+    return directedNetwork
   }
 
   public getInitialClustering (): Clustering | undefined {
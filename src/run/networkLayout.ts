@@ -1,7 +1,7 @@
 /* eslint-disable no-console */
 import Random from 'java-random'
 import NetworkAnalysis from './networkAnalysis'
-import { LayoutQualityFunctions, NormalizationMethods } from './enums'
+import { BackboneMethods, LayoutQualityFunctions, NormalizationMethods } from './enums'
 import GradientDescentVOSLayoutAlgorithm from '../gradientDescentVOSLayoutAlgorithm'
 import Layout from '../layout'
 
@@ -123,8 +123,13 @@ export default class NetworkLayout extends NetworkAnalysis {
       throw new Error('Network data is not initialized.')
     }
 
-    let network = this._networkHelper.getNetwork()
+    let network = this._networkHelper.getNetwork(this._keepSelfLinks)
     console.log(`Network consists of ${network.getNNodes()} nodes and ${network.getNEdges()} edges with a total edge weight of ${network.getTotalEdgeWeight()}.`)
+    console.log(`Total edge weight of self links is ${network.getTotalEdgeWeightSelfLinks()}${this._keepSelfLinks ? '' : ' (self links are dropped)'}.`)
+    if (this._backbone !== BackboneMethods.NoBackbone) {
+      network = this.extractBackbone(network)
+      console.log(`Backbone extracted using ${this._backbone} consists of ${network.getNEdges()} edges with a total edge weight of ${network.getTotalEdgeWeight()}.`)
+    }
 
     const initialLayout = this._networkHelper.getInitialLayout()
 
@@ -149,6 +154,12 @@ export default class NetworkLayout extends NetworkAnalysis {
         network = network.createNormalizedNetworkUsingAssociationStrength()
       } else if (this._normalization === NormalizationMethods.Fractionalization) {
         network = network.createNormalizedNetworkUsingFractionalization()
+      } else if (this._normalization === NormalizationMethods.CosineSimilarity) {
+        network = network.createNormalizedNetworkUsingCosineSimilarity()
+      } else if (this._normalization === NormalizationMethods.JaccardIndex) {
+        network = network.createNormalizedNetworkUsingJaccardIndex()
+      } else if (this._normalization === NormalizationMethods.InclusionIndex) {
+        network = network.createNormalizedNetworkUsingInclusionIndex()
       }
     }
 
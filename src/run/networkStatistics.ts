@@ -0,0 +1,67 @@
+/* eslint-disable no-console */
+import NetworkAnalysis from './networkAnalysis'
+import { BackboneMethods } from './enums'
+import NetworkStatisticsCalculator, { DistributionStatistics, NetworkStatisticsReport } from '../networkStatisticsCalculator'
+
+/**
+ * Class for calculating descriptive statistics of a network.
+ */
+export default class NetworkStatistics extends NetworkAnalysis {
+  private _percentiles = NetworkStatisticsCalculator.DEFAULT_PERCENTILES
+  private _statistics: NetworkStatisticsReport | undefined
+
+  /**
+   * Percentiles, between 0 and 100, for which the value is reported in each
+   * distribution.
+   */
+  public percentiles (value: number[]): this {
+    this._percentiles = value
+    return this
+  }
+
+  /**
+   * Report of descriptive statistics calculated in the last run.
+   */
+  public getStatistics (): NetworkStatisticsReport | undefined {
+    return this._statistics
+  }
+
+  /**
+   * Calculate descriptive statistics of a network.
+   */
+  public run (): void {
+    if (!this._networkHelper) {
+      throw new Error('Network data is not initialized.')
+    }
+
+    let network = this._networkHelper.getNetwork(this._keepSelfLinks)
+    console.log(`Network consists of ${network.getNNodes()} nodes and ${network.getNEdges()} edges with a total edge weight of ${network.getTotalEdgeWeight()}.`)
+    console.log(`Total edge weight of self links is ${network.getTotalEdgeWeightSelfLinks()}${this._keepSelfLinks ? '' : ' (self links are dropped)'}.`)
+    if (this._backbone !== BackboneMethods.NoBackbone) {
+      network = this.extractBackbone(network)
+      console.log(`Backbone extracted using ${this._backbone} consists of ${network.getNEdges()} edges with a total edge weight of ${network.getTotalEdgeWeight()}.`)
+    }
+
+    console.log('Calculating network statistics.')
+    const startTimeAlgorithm = Date.now()
+    const statistics = new NetworkStatisticsCalculator(this._percentiles).calcStatistics(network)
+    console.log(`Calculating statistics took ${(Date.now() - startTimeAlgorithm) / 1000}s.`)
+
+    console.log(`Density:                                     ${statistics.density}`)
+    console.log(`Average degree:                              ${statistics.averageDegree}`)
+    console.log(`Average weighted degree:                     ${statistics.averageWeightedDegree}`)
+    console.log(`Number of isolated nodes:                    ${statistics.nIsolatedNodes}`)
+    console.log(`Number of connected components:              ${statistics.nComponents}`)
+    console.log(`Fraction of nodes in largest component:      ${statistics.fractionNodesLargestComponent}`)
+    logDistributionStatistics('Degree', statistics.degreeDistribution, statistics.percentiles)
+    logDistributionStatistics('Weighted degree', statistics.strengthDistribution, statistics.percentiles)
+    logDistributionStatistics('Edge weight', statistics.edgeWeightDistribution, statistics.percentiles)
+
+    this._statistics = statistics
+  }
+}
+
+function logDistributionStatistics (name: string, distribution: DistributionStatistics, percentiles: number[]): void {
+  const percentileValues = percentiles.map((percentile, i) => `P${percentile}=${distribution.percentileValues[i]}`).join(', ')
+  console.log(`${name} distribution: minimum=${distribution.minimum}, maximum=${distribution.maximum}, mean=${distribution.mean}, median=${distribution.median}, standard deviation=${distribution.standardDeviation}${percentileValues.length > 0 ? `, ${percentileValues}` : ''}`)
+}
@@ -7,6 +7,11 @@ export type Node = {
    */
   id: string | number
 
+  /**
+   * Label of a node.
+   */
+  label?: string
+
   /**
    * Horizontal coordinate of a node. If the coordinates of a node are specified
    * before running the layout algorithm, they will be used in the initial
@@ -0,0 +1,323 @@
+import Random from 'java-random'
+import Network from './network'
+import { generateRandomPermutation } from './utils/arrays'
+import DistanceQueue from './utils/distanceQueue'
+
+/**
+ * Interpretations of edge weights when calculating shortest paths.
+ */
+export enum EdgeWeightInterpretation {
+  /**
+   * Edge weights are ignored. Each edge has a length of 1, and shortest
+   * paths are calculated using breadth-first search.
+   */
+  Unweighted = 'unweighted',
+
+  /**
+   * The length of an edge equals its weight. Shortest paths are calculated
+   * using Dijkstra's algorithm.
+   */
+  Cost = 'cost',
+
+  /**
+   * The length of an edge equals the reciprocal of its weight, so strongly
+   * connected nodes are close to each other. Shortest paths are calculated
+   * using Dijkstra's algorithm.
+   */
+  Similarity = 'similarity',
+}
+
+/**
+ * Interface for the shortest paths from a source node to all other nodes.
+ */
+export interface ShortestPathTree {
+  /**
+   * Source node.
+   */
+  source: number
+
+  /**
+   * Shortest path length from the source node to each node. Nodes that
+   * cannot be reached have a distance of `Infinity`.
+   */
+  distances: number[]
+
+  /**
+   * Node preceding each node on a shortest path from the source node, or -1
+   * for the source node and for nodes that cannot be reached.
+   */
+  predecessors: number[]
+}
+
+/**
+ * Calculator of shortest paths in a network.
+ *
+ * Edge weights are interpreted according to the edge weight interpretation
+ * of the calculator. Self links are not stored in the arrays of a network and
+ * are ignored. Directed networks are treated as undirected networks. The
+ * diameter and the eccentricities are based on the nodes that can be reached,
+ * so in a network that is not connected they are calculated within connected
+ * components.
+ */
+export default class ShortestPathsCalculator {
+  /**
+   * Interpretation of edge weights.
+   */
+  protected edgeWeightInterpretation: EdgeWeightInterpretation
+
+  /**
+   * Constructs a shortest paths calculator.
+   *
+   * @param edgeWeightInterpretation Interpretation of edge weights
+   */
+  public constructor (edgeWeightInterpretation = EdgeWeightInterpretation.Similarity) {
+    this.edgeWeightInterpretation = edgeWeightInterpretation
+  }
+
+  /**
+   * Returns the shortest path from the source node of a shortest path tree
+   * to a target node.
+   *
+   * @param shortestPathTree Shortest path tree
+   * @param target           Target node
+   *
+   * @return Nodes on the path, starting with the source node and ending with
+   *         the target node, or an empty array if the target node cannot be
+   *         reached
+   */
+  public static getPath (shortestPathTree: ShortestPathTree, target: number): number[] {
+    if (shortestPathTree.distances[target] === Number.POSITIVE_INFINITY) {
+      return []
+    }
+    const path = [target]
+    let node = target
+    while (node !== shortestPathTree.source) {
+      node = shortestPathTree.predecessors[node]
+      path.push(node)
+    }
+    return path.reverse()
+  }
+
+  /**
+   * Returns the interpretation of edge weights.
+   *
+   * @return Interpretation of edge weights
+   */
+  public getEdgeWeightInterpretation (): EdgeWeightInterpretation {
+    return this.edgeWeightInterpretation
+  }
+
+  /**
+   * Sets the interpretation of edge weights.
+   *
+   * @param edgeWeightInterpretation Interpretation of edge weights
+   */
+  public setEdgeWeightInterpretation (edgeWeightInterpretation: EdgeWeightInterpretation): void {
+    this.edgeWeightInterpretation = edgeWeightInterpretation
+  }
+
+  /**
+   * Calculates the shortest paths from a source node to all other nodes.
+   *
+   * @param network Network
+   * @param source  Source node
+   *
+   * @return Shortest path tree
+   */
+  public calcShortestPathTree (network: Network, source: number): ShortestPathTree {
+    const distances = new Array<number>(network.getNNodes())
+    const predecessors = new Array<number>(network.getNNodes())
+    this.calcShortestPathTreeHelper(network, source, distances, predecessors, new DistanceQueue(network.getNNodes()))
+    return { source, distances, predecessors }
+  }
+
+  /**
+   * Calculates the shortest path lengths from a source node to all other
+   * nodes.
+   *
+   * @param network Network
+   * @param source  Source node
+   *
+   * @return Shortest path length to each node, or `Infinity` for nodes that
+   *         cannot be reached
+   */
+  public calcDistances (network: Network, source: number): number[] {
+    return this.calcShortestPathTree(network, source).distances
+  }
+
+  /**
+   * Calculates a shortest path between two nodes.
+   *
+   * @param network Network
+   * @param source  Source node
+   * @param target  Target node
+   *
+   * @return Nodes on the path, starting with the source node and ending with
+   *         the target node, or an empty array if the target node cannot be
+   *         reached
+   */
+  public calcShortestPath (network: Network, source: number, target: number): number[] {
+    return ShortestPathsCalculator.getPath(this.calcShortestPathTree(network, source), target)
+  }
+
+  /**
+   * Calculates the shortest path lengths between all pairs of nodes.
+   *
+   * The memory required grows quadratically with the number of nodes, so
+   * this method is intended for small networks only.
+   *
+   * @param network Network
+   *
+   * @return Shortest path length between each pair of nodes
+   */
+  public calcAllPairsDistances (network: Network): number[][] {
+    const nNodes = network.getNNodes()
+    const distances = new Array<number[]>(nNodes)
+    const predecessors = new Array<number>(nNodes)
+    const queue = new DistanceQueue(nNodes)
+    for (let i = 0; i < nNodes; i++) {
+      distances[i] = new Array<number>(nNodes)
+      this.calcShortestPathTreeHelper(network, i, distances[i], predecessors, queue)
+    }
+    return distances
+  }
+
+  /**
+   * Calculates the eccentricity of a node, that is, the largest shortest
+   * path length from the node to a node that can be reached.
+   *
+   * @param network Network
+   * @param node    Node
+   *
+   * @return Eccentricity
+   */
+  public calcEccentricity (network: Network, node: number): number {
+    return calcMaximumFiniteValue(this.calcDistances(network, node))
+  }
+
+  /**
+   * Calculates the eccentricity of each node.
+   *
+   * This requires a shortest path calculation from each node.
+   *
+   * @param network Network
+   *
+   * @return Eccentricity of each node
+   */
+  public calcEccentricities (network: Network): number[] {
+    const nNodes = network.getNNodes()
+    const eccentricities = new Array<number>(nNodes)
+    const distances = new Array<number>(nNodes)
+    const predecessors = new Array<number>(nNodes)
+    const queue = new DistanceQueue(nNodes)
+    for (let i = 0; i < nNodes; i++) {
+      this.calcShortestPathTreeHelper(network, i, distances, predecessors, queue)
+      eccentricities[i] = calcMaximumFiniteValue(distances)
+    }
+    return eccentricities
+  }
+
+  /**
+   * Calculates the diameter of a network, that is, the largest eccentricity
+   * of a node.
+   *
+   * This requires a shortest path calculation from each node. For large
+   * networks, {@link estimateDiameter} is more efficient.
+   *
+   * @param network Network
+   *
+   * @return Diameter
+   */
+  public calcDiameter (network: Network): number {
+    return calcMaximumFiniteValue(this.calcEccentricities(network))
+  }
+
+  /**
+   * Estimates the diameter of a network using repeated double sweeps.
+   *
+   * Starting from a random node, a sweep moves to the node that is farthest
+   * away, whose eccentricity is a lower bound on the diameter. Each sweep
+   * starts from the node found in the previous sweep, and a new random start
+   * is made after every two sweeps. The estimate is the largest eccentricity
+   * found, which is a lower bound on the diameter and in practice often
+   * equals the diameter.
+   *
+   * @param network Network
+   * @param nSweeps Number of sweeps
+   * @param random  Random number generator
+   *
+   * @return Estimated diameter
+   */
+  public estimateDiameter (network: Network, nSweeps = 10, random: Random = new Random()): number {
+    const nNodes = network.getNNodes()
+    const startNodes = generateRandomPermutation(nNodes, random)
+    const distances = new Array<number>(nNodes)
+    const predecessors = new Array<number>(nNodes)
+    const queue = new DistanceQueue(nNodes)
+    let diameter = 0
+    let node = -1
+    if (nNodes === 0) {
+      return diameter
+    }
+    for (let i = 0; i < nSweeps; i++) {
+      if (i % 2 === 0) {
+        node = startNodes[(i / 2) % nNodes]
+      }
+      this.calcShortestPathTreeHelper(network, node, distances, predecessors, queue)
+      for (let j = 0; j < nNodes; j++) {
+        if (distances[j] < Number.POSITIVE_INFINITY && distances[j] > distances[node]) {
+          node = j
+        }
+      }
+      diameter = Math.max(diameter, distances[node])
+    }
+    return diameter
+  }
+
+  private calcShortestPathTreeHelper (network: Network, source: number, distances: number[], predecessors: number[], queue: DistanceQueue): void {
+    distances.fill(Number.POSITIVE_INFINITY)
+    predecessors.fill(-1)
+    distances[source] = 0
+
+    if (this.edgeWeightInterpretation === EdgeWeightInterpretation.Unweighted) {
+      const nodes = [source]
+      for (let i = 0; i < nodes.length; i++) {
+        const j = nodes[i]
+        for (let k = network.firstNeighborIndices[j]; k < network.firstNeighborIndices[j + 1]; k++) {
+          const l = network.neighbors[k]
+          if (distances[l] === Number.POSITIVE_INFINITY) {
+            distances[l] = distances[j] + 1
+            predecessors[l] = j
+            nodes.push(l)
+          }
+        }
+      }
+    } else {
+      const useReciprocalWeights = (this.edgeWeightInterpretation === EdgeWeightInterpretation.Similarity)
+      queue.reset()
+      queue.push(source, 0)
+      while (!queue.isEmpty()) {
+        const i = queue.pop()
+        for (let j = network.firstNeighborIndices[i]; j < network.firstNeighborIndices[i + 1]; j++) {
+          const k = network.neighbors[j]
+          const distance = distances[i] + (useReciprocalWeights ? 1 / network.edgeWeights[j] : network.edgeWeights[j])
+          if (distance < distances[k]) {
+            distances[k] = distance
+            predecessors[k] = i
+            queue.push(k, distance)
+          }
+        }
+      }
+    }
+  }
+}
+
+function calcMaximumFiniteValue (values: number[]): number {
+  let maximum = 0
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] < Number.POSITIVE_INFINITY && values[i] > maximum) {
+      maximum = values[i]
+    }
+  }
+  return maximum
+}
@@ -0,0 +1,416 @@
+import Random from 'java-random'
+import Network from './network'
+
+/**
+ * Measures of the similarity between two feature vectors.
+ */
+export enum SimilarityMeasure {
+  /**
+   * Cosine of the angle between the feature vectors. Pairs of feature
+   * vectors with a cosine similarity of 0 or less are never connected.
+   */
+  Cosine = 'cosine',
+
+  /**
+   * Similarity `1 / (1 + d)`, where `d` is the Euclidean distance between the
+   * feature vectors.
+   */
+  Euclidean = 'euclidean',
+}
+
+/**
+ * Interface for a sparse feature matrix in compressed sparse row format.
+ */
+export interface SparseFeatureMatrix {
+  /**
+   * Number of rows, that is, the number of feature vectors.
+   */
+  nRows: number
+
+  /**
+   * Number of columns, that is, the number of features.
+   */
+  nColumns: number
+
+  /**
+   * Index of the first nonzero entry of each row, followed by the total
+   * number of nonzero entries.
+   */
+  firstEntryIndices: number[]
+
+  /**
+   * Column of each nonzero entry. Within a row, columns must be in
+   * increasing order.
+   */
+  columns: number[]
+
+  /**
+   * Value of each nonzero entry.
+   */
+  values: number[]
+}
+
+/**
+ * Interface for specifying parameters when constructing a similarity network
+ * builder.
+ */
+export interface SimilarityNetworkBuilderParameters {
+  /**
+   * Number of nearest neighbors of each node. Defaults to 10.
+   */
+  nNeighbors?: number
+
+  /**
+   * Indicates whether two nodes are connected only if each is among the
+   * nearest neighbors of the other. By default, two nodes are connected if
+   * either is among the nearest neighbors of the other.
+   */
+  mutual?: boolean
+
+  /**
+   * Similarity measure. Defaults to cosine similarity.
+   */
+  similarityMeasure?: SimilarityMeasure
+
+  /**
+   * Indicates whether to search for nearest neighbors approximately. By
+   * default, nearest neighbors are searched exactly, which requires the
+   * similarity between each pair of feature vectors to be calculated.
+   */
+  approximate?: boolean
+
+  /**
+   * Number of random projection trees used in approximate search. Defaults
+   * to 10.
+   */
+  nTrees?: number
+
+  /**
+   * Maximum number of feature vectors in a leaf of a random projection tree.
+   * Defaults to 50.
+   */
+  maxLeafSize?: number
+
+  /**
+   * Number of iterations in which approximate nearest neighbors are refined
+   * by considering the nearest neighbors of nearest neighbors. Defaults to 2.
+   */
+  nRefinementIterations?: number
+
+  /**
+   * Indicates whether to set node weights equal to total edge weights.
+   * Otherwise nodes have a weight of 1.
+   */
+  setNodeWeightsToTotalEdgeWeights?: boolean
+
+  /**
+   * Indicates whether to store the network in typed arrays.
+   */
+  useTypedArrays?: boolean
+}
+
+/**
+ * Builder of k-nearest-neighbor similarity networks.
+ *
+ * Each feature vector, for instance a document embedding, becomes a node,
+ * with node `i` corresponding to row `i` of the feature matrix. Each node is
+ * connected to its nearest neighbors, that is, the nodes whose feature
+ * vectors are most similar to its own feature vector. The weight of an edge
+ * equals the similarity of the feature vectors of the nodes. Ties are broken
+ * in favor of nodes with a lower index. The resulting network is undirected
+ * and can be clustered and laid out directly.
+ *
+ * In approximate search, candidate nearest neighbors are the feature vectors
+ * in the same leaf of a random projection tree. A random projection tree
+ * recursively splits the feature vectors based on whether they are more
+ * similar to one or the other of two randomly selected feature vectors. The
+ * candidates are then refined by considering the nearest neighbors of
+ * nearest neighbors. The time required grows roughly linearly with the number
+ * of feature vectors.
+ */
+export default class SimilarityNetworkBuilder {
+  /**
+   * Number of nearest neighbors of each node.
+   */
+  protected nNeighbors: number
+
+  /**
+   * Indicates whether only mutual nearest neighbors are connected.
+   */
+  protected mutual: boolean
+
+  /**
+   * Similarity measure.
+   */
+  protected similarityMeasure: SimilarityMeasure
+
+  /**
+   * Indicates whether to search for nearest neighbors approximately.
+   */
+  protected approximate: boolean
+
+  /**
+   * Number of random projection trees.
+   */
+  protected nTrees: number
+
+  /**
+   * Maximum number of feature vectors in a leaf of a random projection tree.
+   */
+  protected maxLeafSize: number
+
+  /**
+   * Number of refinement iterations.
+   */
+  protected nRefinementIterations: number
+
+  /**
+   * Indicates whether to set node weights equal to total edge weights.
+   */
+  protected setNodeWeightsToTotalEdgeWeights: boolean
+
+  /**
+   * Indicates whether to store the network in typed arrays.
+   */
+  protected useTypedArrays: boolean
+
+  /**
+   * Constructs a similarity network builder.
+   *
+   * @param parameters Similarity network builder parameters
+   */
+  public constructor (parameters: SimilarityNetworkBuilderParameters = {}) {
+    this.nNeighbors = parameters.nNeighbors ?? 10
+    this.mutual = parameters.mutual ?? false
+    this.similarityMeasure = parameters.similarityMeasure ?? SimilarityMeasure.Cosine
+    this.approximate = parameters.approximate ?? false
+    this.nTrees = parameters.nTrees ?? 10
+    this.maxLeafSize = parameters.maxLeafSize ?? 50
+    this.nRefinementIterations = parameters.nRefinementIterations ?? 2
+    this.setNodeWeightsToTotalEdgeWeights = parameters.setNodeWeightsToTotalEdgeWeights ?? false
+    this.useTypedArrays = parameters.useTypedArrays ?? false
+    if (this.nNeighbors < 1) {
+      throw new Error('Number of nearest neighbors must be at least 1.')
+    }
+    if (this.maxLeafSize < 2) {
+      throw new Error('Maximum leaf size must be at least 2.')
+    }
+  }
+
+  /**
+   * Builds a similarity network from a feature matrix.
+   *
+   * The integrity of the network is checked.
+   *
+   * @param features Feature matrix, either dense, with one array per feature
+   *                 vector, or sparse
+   * @param random   Random number generator, used in approximate search only
+   *
+   * @return Network
+   *
+   * @throws The feature matrix is not valid.
+   */
+  public build (features: number[][] | SparseFeatureMatrix, random: Random = new Random()): Network {
+    const nNodes = Array.isArray(features) ? features.length : features.nRows
+    const calcDotProduct = createDotProductFunction(features)
+    const squaredNorms = new Array<number>(nNodes)
+    for (let i = 0; i < nNodes; i++) {
+      squaredNorms[i] = calcDotProduct(i, i)
+    }
+    let calcSimilarity: (node1: number, node2: number) => number
+    if (this.similarityMeasure === SimilarityMeasure.Euclidean) {
+      calcSimilarity = (node1, node2): number => 1 / (1 + Math.sqrt(Math.max(squaredNorms[node1] + squaredNorms[node2] - 2 * calcDotProduct(node1, node2), 0)))
+    } else {
+      calcSimilarity = (node1, node2): number => (squaredNorms[node1] > 0 && squaredNorms[node2] > 0) ? calcDotProduct(node1, node2) / Math.sqrt(squaredNorms[node1] * squaredNorms[node2]) : 0
+    }
+
+    const neighbors = new Array<number[]>(nNodes)
+    const similarities = new Array<number[]>(nNodes)
+    for (let i = 0; i < nNodes; i++) {
+      neighbors[i] = []
+      similarities[i] = []
+    }
+    if (this.approximate) {
+      this.findApproximateNearestNeighbors(neighbors, similarities, calcDotProduct, squaredNorms, calcSimilarity, random)
+    } else {
+      for (let i = 0; i < nNodes; i++) {
+        for (let j = i + 1; j < nNodes; j++) {
+          const similarity = calcSimilarity(i, j)
+          insertNeighbor(neighbors[i], similarities[i], this.nNeighbors, j, similarity)
+          insertNeighbor(neighbors[j], similarities[j], this.nNeighbors, i, similarity)
+        }
+      }
+    }
+
+    const edges = [new Array<number>(0), new Array<number>(0)]
+    const edgeWeights = new Array<number>(0)
+    const totalEdgeWeightPerNode = new Array<number>(nNodes).fill(0)
+    for (let i = 0; i < nNodes; i++) {
+      for (let j = 0; j < neighbors[i].length; j++) {
+        const k = neighbors[i][j]
+        const isMutual = neighbors[k].includes(i)
+        if (this.mutual ? (isMutual && i < k) : (!isMutual || i < k)) {
+          edges[0].push(Math.min(i, k))
+          edges[1].push(Math.max(i, k))
+          edgeWeights.push(similarities[i][j])
+          totalEdgeWeightPerNode[i] += similarities[i][j]
+          totalEdgeWeightPerNode[k] += similarities[i][j]
+        }
+      }
+    }
+
+    return new Network({
+      nodeWeights: this.setNodeWeightsToTotalEdgeWeights ? totalEdgeWeightPerNode : new Array<number>(nNodes).fill(1),
+      edges,
+      edgeWeights,
+      sortedEdges: false,
+      checkIntegrity: true,
+      useTypedArrays: this.useTypedArrays,
+    })
+  }
+
+  private findApproximateNearestNeighbors (neighbors: number[][], similarities: number[][], calcDotProduct: (node1: number, node2: number) => number, squaredNorms: number[], calcSimilarity: (node1: number, node2: number) => number, random: Random): void {
+    const nNodes = neighbors.length
+
+    // Positive margins indicate that a feature vector is more similar to the
+    // first than to the second feature vector.
+    let calcMargin: (node: number, node1: number, node2: number) => number
+    if (this.similarityMeasure === SimilarityMeasure.Euclidean) {
+      calcMargin = (node, node1, node2): number => calcDotProduct(node, node1) - calcDotProduct(node, node2) - (squaredNorms[node1] - squaredNorms[node2]) / 2
+    } else {
+      calcMargin = (node, node1, node2): number => ((squaredNorms[node1] > 0) ? calcDotProduct(node, node1) / Math.sqrt(squaredNorms[node1]) : 0) - ((squaredNorms[node2] > 0) ? calcDotProduct(node, node2) / Math.sqrt(squaredNorms[node2]) : 0)
+    }
+
+    for (let i = 0; i < this.nTrees; i++) {
+      const leaves = buildRandomProjectionTree(nNodes, this.maxLeafSize, calcMargin, random)
+      for (let j = 0; j < leaves.length; j++) {
+        const leaf = leaves[j]
+        for (let k = 0; k < leaf.length; k++) {
+          for (let l = k + 1; l < leaf.length; l++) {
+            if (!neighbors[leaf[k]].includes(leaf[l])) {
+              const similarity = calcSimilarity(leaf[k], leaf[l])
+              insertNeighbor(neighbors[leaf[k]], similarities[leaf[k]], this.nNeighbors, leaf[l], similarity)
+              insertNeighbor(neighbors[leaf[l]], similarities[leaf[l]], this.nNeighbors, leaf[k], similarity)
+            }
+          }
+        }
+      }
+    }
+
+    const lastVisitedBy = new Array<number>(nNodes).fill(-1)
+    for (let i = 0; i < this.nRefinementIterations; i++) {
+      for (let j = 0; j < nNodes; j++) {
+        lastVisitedBy[j] = j
+        const candidates = neighbors[j].slice()
+        for (let k = 0; k < candidates.length; k++) {
+          const neighborsOfNeighbor = neighbors[candidates[k]].slice()
+          for (let l = 0; l < neighborsOfNeighbor.length; l++) {
+            const m = neighborsOfNeighbor[l]
+            if (lastVisitedBy[m] !== j && !neighbors[j].includes(m)) {
+              lastVisitedBy[m] = j
+              const similarity = calcSimilarity(j, m)
+              insertNeighbor(neighbors[j], similarities[j], this.nNeighbors, m, similarity)
+              insertNeighbor(neighbors[m], similarities[m], this.nNeighbors, j, similarity)
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+function createDotProductFunction (features: number[][] | SparseFeatureMatrix): (node1: number, node2: number) => number {
+  if (Array.isArray(features)) {
+    const nColumns = (features.length > 0) ? features[0].length : 0
+    if (features.some(row => row.length !== nColumns)) {
+      throw new Error('All feature vectors must have the same length.')
+    }
+    return (node1, node2): number => {
+      const row1 = features[node1]
+      const row2 = features[node2]
+      let dotProduct = 0
+      for (let i = 0; i < nColumns; i++) {
+        dotProduct += row1[i] * row2[i]
+      }
+      return dotProduct
+    }
+  }
+
+  const { nRows, nColumns, firstEntryIndices, columns, values } = features
+  if (firstEntryIndices.length !== nRows + 1 || columns.length !== firstEntryIndices[nRows] || values.length !== firstEntryIndices[nRows]) {
+    throw new Error('Lengths of the arrays of the sparse feature matrix are not consistent.')
+  }
+  for (let i = 0; i < nRows; i++) {
+    for (let j = firstEntryIndices[i]; j < firstEntryIndices[i + 1]; j++) {
+      if (columns[j] < 0 || columns[j] >= nColumns || (j > firstEntryIndices[i] && columns[j] <= columns[j - 1])) {
+        throw new Error('Columns must be between 0 and the number of columns and in increasing order within each row.')
+      }
+    }
+  }
+  return (node1, node2): number => {
+    let i = firstEntryIndices[node1]
+    let j = firstEntryIndices[node2]
+    let dotProduct = 0
+    while (i < firstEntryIndices[node1 + 1] && j < firstEntryIndices[node2 + 1]) {
+      if (columns[i] < columns[j]) {
+        i++
+      } else if (columns[i] > columns[j]) {
+        j++
+      } else {
+        dotProduct += values[i] * values[j]
+        i++
+        j++
+      }
+    }
+    return dotProduct
+  }
+}
+
+function insertNeighbor (neighbors: number[], similarities: number[], maxNNeighbors: number, neighbor: number, similarity: number): void {
+  if (!(similarity > 0) || neighbors.includes(neighbor)) {
+    return
+  }
+  let i = neighbors.length
+  while (i > 0 && (similarities[i - 1] < similarity || (similarities[i - 1] === similarity && neighbors[i - 1] > neighbor))) {
+    i--
+  }
+  if (i < maxNNeighbors) {
+    neighbors.splice(i, 0, neighbor)
+    similarities.splice(i, 0, similarity)
+    if (neighbors.length > maxNNeighbors) {
+      neighbors.pop()
+      similarities.pop()
+    }
+  }
+}
+
+function buildRandomProjectionTree (nNodes: number, maxLeafSize: number, calcMargin: (node: number, node1: number, node2: number) => number, random: Random): number[][] {
+  const leaves = new Array<number[]>(0)
+  const nodeSets = [[...Array(nNodes).keys()]]
+  while (nodeSets.length > 0) {
+    const nodes = nodeSets.pop() as number[]
+    if (nodes.length <= maxLeafSize) {
+      leaves.push(nodes)
+    } else {
+      const i = random.nextInt(nodes.length)
+      let j = random.nextInt(nodes.length - 1)
+      if (j >= i) j++
+      let nodes1 = new Array<number>(0)
+      let nodes2 = new Array<number>(0)
+      for (let k = 0; k < nodes.length; k++) {
+        const margin = calcMargin(nodes[k], nodes[i], nodes[j])
+        if (margin > 0 || (margin === 0 && random.nextInt(2) === 0)) {
+          nodes1.push(nodes[k])
+        } else {
+          nodes2.push(nodes[k])
+        }
+      }
+      if (nodes1.length === 0 || nodes2.length === 0) {
+        nodes1 = nodes.slice(0, nodes.length / 2)
+        nodes2 = nodes.slice(nodes.length / 2)
+      }
+      nodeSets.push(nodes1, nodes2)
+    }
+  }
+  return leaves
+}
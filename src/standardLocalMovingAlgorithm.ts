@@ -1,8 +1,9 @@
 import Random from 'java-random'
 import IncrementalCPMClusteringAlgorithm from './incrementalCPMClusteringAlgorithm'
 import Clustering from './clustering'
+import DirectedNetwork from './directedNetwork'
 import Network from './network'
-import { generateRandomPermutation } from './utils/arrays'
+import { generateRandomPermutation, createIntegerArray, createDoubleArray } from './utils/arrays'
 
 /**
  * Standard local moving algorithm.
@@ -86,15 +87,18 @@ export default class StandardLocalMovingAlgorithm extends IncrementalCPMClusteri
 
     let update = false
 
-    const clusterWeights = new Array<number>(network.nNodes).fill(0)
-    const nNodesPerCluster = new Array<number>(network.nNodes).fill(0)
+    const inNodeWeights = (network instanceof DirectedNetwork) ? network.inNodeWeights : undefined
+    const clusterWeights = createDoubleArray(network.nNodes, network.usesTypedArrays())
+    const inClusterWeights = createDoubleArray(inNodeWeights ? network.nNodes : 0, network.usesTypedArrays())
+    const nNodesPerCluster = createIntegerArray(network.nNodes, network.usesTypedArrays())
     for (let i = 0; i < network.nNodes; i++) {
       clusterWeights[clustering.clusters[i]] += network.nodeWeights[i]
+      if (inNodeWeights) inClusterWeights[clustering.clusters[i]] += inNodeWeights[i]
       nNodesPerCluster[clustering.clusters[i]]++
     }
 
     let nUnusedClusters = 0
-    const unusedClusters = new Array<number>(network.nNodes - 1).fill(0)
+    const unusedClusters = createIntegerArray(network.nNodes - 1, network.usesTypedArrays())
     for (let i = network.nNodes - 1; i >= 0; i--) {
       if (nNodesPerCluster[i] === 0) {
         unusedClusters[nUnusedClusters] = i
@@ -110,8 +114,8 @@ export default class StandardLocalMovingAlgorithm extends IncrementalCPMClusteri
      * Continue iterating until none of the last nNodes node visits has
      * resulted in a node movement.
      */
-    const edgeWeightPerCluster = new Array<number>(network.nNodes).fill(0)
-    const neighboringClusters = new Array<number>(network.nNodes).fill(0)
+    const edgeWeightPerCluster = createDoubleArray(network.nNodes, network.usesTypedArrays())
+    const neighboringClusters = createIntegerArray(network.nNodes, network.usesTypedArrays())
     let nUnstableNodes = network.nNodes
     let i = 0
     do {
@@ -121,6 +125,7 @@ export default class StandardLocalMovingAlgorithm extends IncrementalCPMClusteri
 
       // Remove the currently selected node from its current cluster.
       clusterWeights[currentCluster] -= network.nodeWeights[j]
+      if (inNodeWeights) inClusterWeights[currentCluster] -= inNodeWeights[j]
       nNodesPerCluster[currentCluster]--
       if (nNodesPerCluster[currentCluster] === 0) {
         unusedClusters[nUnusedClusters] = currentCluster
@@ -155,13 +160,16 @@ export default class StandardLocalMovingAlgorithm extends IncrementalCPMClusteri
        * of the algorithm, if the old cluster of the currently selected
        * node is optimal but there are also other optimal clusters, the
        * currently selected node will be moved back to its old cluster.
+       * For a directed network, the out weight of the currently selected
+       * node is combined with the in weight of a cluster and the other way
+       * around.
        */
       let bestCluster = currentCluster
-      let maxQualityValueIncrement = edgeWeightPerCluster[currentCluster] - network.nodeWeights[j] * clusterWeights[currentCluster] * this.resolution
+      let maxQualityValueIncrement = edgeWeightPerCluster[currentCluster] - (inNodeWeights ? (network.nodeWeights[j] * inClusterWeights[currentCluster] + inNodeWeights[j] * clusterWeights[currentCluster]) / 2 : network.nodeWeights[j] * clusterWeights[currentCluster]) * this.resolution
       for (let k = 0; k < nNeighboringClusters; k++) {
         const l = neighboringClusters[k]
 
-        const qualityValueIncrement = edgeWeightPerCluster[l] - network.nodeWeights[j] * clusterWeights[l] * this.resolution
+        const qualityValueIncrement = edgeWeightPerCluster[l] - (inNodeWeights ? (network.nodeWeights[j] * inClusterWeights[l] + inNodeWeights[j] * clusterWeights[l]) / 2 : network.nodeWeights[j] * clusterWeights[l]) * this.resolution
         if (qualityValueIncrement > maxQualityValueIncrement) {
           bestCluster = l
           maxQualityValueIncrement = qualityValueIncrement
@@ -175,6 +183,7 @@ export default class StandardLocalMovingAlgorithm extends IncrementalCPMClusteri
        * clustering statistics.
        */
       clusterWeights[bestCluster] += network.nodeWeights[j]
+      if (inNodeWeights) inClusterWeights[bestCluster] += inNodeWeights[j]
       nNodesPerCluster[bestCluster]++
       if (bestCluster === unusedClusters[nUnusedClusters - 1]) {
         nUnusedClusters--
@@ -0,0 +1,217 @@
+import Clustering from './clustering'
+import Layout, { LayoutConstructorParametersWithCoordinates } from './layout'
+import type Network from './network'
+
+/**
+ * Mapping between the nodes in a network and the nodes in a subnetwork of the
+ * network.
+ *
+ * Node `i` in the subnetwork corresponds to node `getNode(i)` in the network.
+ * Node `j` in the network corresponds to node `getSubnetworkNode(j)` in the
+ * subnetwork, or to no node in the subnetwork if this value equals -1.
+ *
+ * A mapping can be used to lift a clustering or a layout of the subnetwork
+ * back onto the network.
+ *
+ * Subnetwork mapping objects are immutable.
+ */
+export default class SubnetworkMapping {
+  /**
+   * Number of nodes in the network.
+   */
+  protected nNodes: number
+
+  /**
+   * Node in the network of each node in the subnetwork.
+   */
+  protected nodes: number[]
+
+  /**
+   * Node in the subnetwork of each node in the network, or -1 for nodes that
+   * are not in the subnetwork.
+   */
+  protected subnetworkNodes: number[]
+
+  /**
+   * Constructs a subnetwork mapping.
+   *
+   * @param nNodes Number of nodes in the network
+   * @param nodes  Node in the network of each node in the subnetwork
+   *
+   * @throws The nodes are not distinct nodes in the network.
+   */
+  public constructor (nNodes: number, nodes: ArrayLike<number>) {
+    this.nNodes = nNodes
+    this.nodes = Array.from(nodes)
+    this.subnetworkNodes = new Array<number>(nNodes).fill(-1)
+    for (let i = 0; i < this.nodes.length; i++) {
+      const j = this.nodes[i]
+      if (!Number.isInteger(j) || j < 0 || j >= nNodes) {
+        throw new Error('Nodes must be non-negative integers less than nNodes.')
+      }
+      if (this.subnetworkNodes[j] >= 0) {
+        throw new Error('Nodes must be distinct.')
+      }
+      this.subnetworkNodes[j] = i
+    }
+  }
+
+  /**
+   * Returns the number of nodes in the network.
+   *
+   * @return Number of nodes in the network
+   */
+  public getNNodes (): number {
+    return this.nNodes
+  }
+
+  /**
+   * Returns the number of nodes in the subnetwork.
+   *
+   * @return Number of nodes in the subnetwork
+   */
+  public getNSubnetworkNodes (): number {
+    return this.nodes.length
+  }
+
+  /**
+   * Returns the node in the network of each node in the subnetwork.
+   *
+   * @return Node in the network of each node in the subnetwork
+   */
+  public getNodes (): number[] {
+    return this.nodes.slice()
+  }
+
+  /**
+   * Returns the node in the network of a node in the subnetwork.
+   *
+   * @param subnetworkNode Node in the subnetwork
+   *
+   * @return Node in the network
+   */
+  public getNode (subnetworkNode: number): number {
+    return this.nodes[subnetworkNode]
+  }
+
+  /**
+   * Returns the node in the subnetwork of each node in the network.
+   *
+   * Nodes that are not in the subnetwork are mapped to -1.
+   *
+   * @return Node in the subnetwork of each node in the network
+   */
+  public getSubnetworkNodes (): number[] {
+    return this.subnetworkNodes.slice()
+  }
+
+  /**
+   * Returns the node in the subnetwork of a node in the network.
+   *
+   * @param node Node in the network
+   *
+   * @return Node in the subnetwork, or -1 if the node is not in the subnetwork
+   */
+  public getSubnetworkNode (node: number): number {
+    return this.subnetworkNodes[node]
+  }
+
+  /**
+   * Lifts a clustering of the subnetwork onto the network.
+   *
+   * The nodes in the subnetwork keep their clusters. If a clustering of the
+   * network is provided, the nodes that are not in the subnetwork keep their
+   * clusters in this clustering. These clusters are numbered after the
+   * clusters of the subnetwork. Otherwise each node that is not in the
+   * subnetwork is assigned to a singleton cluster. Empty clusters are
+   * removed.
+   *
+   * @param clustering        Clustering of the subnetwork
+   * @param networkClustering Clustering of the network
+   *
+   * @return Clustering of the network
+   *
+   * @throws The number of nodes of a clustering is incorrect.
+   */
+  public liftClustering (clustering: Clustering, networkClustering?: Clustering): Clustering {
+    if (clustering.getNNodes() !== this.nodes.length) {
+      throw new Error('Number of nodes of clustering must be equal to the number of nodes in the subnetwork.')
+    }
+    if (networkClustering !== undefined && networkClustering.getNNodes() !== this.nNodes) {
+      throw new Error('Number of nodes of network clustering must be equal to the number of nodes in the network.')
+    }
+
+    const clusters = new Array<number>(this.nNodes)
+    let nClusters = clustering.nClusters
+    for (let i = 0; i < this.nNodes; i++) {
+      const j = this.subnetworkNodes[i]
+      if (j >= 0) {
+        clusters[i] = clustering.clusters[j]
+      } else if (networkClustering !== undefined) {
+        clusters[i] = clustering.nClusters + networkClustering.clusters[i]
+      } else {
+        clusters[i] = nClusters
+        nClusters++
+      }
+    }
+
+    const liftedClustering = new Clustering({ clusters, useTypedArrays: clustering.usesTypedArrays() })
+    liftedClustering.removeEmptyClusters()
+    return liftedClustering
+  }
+
+  /**
+   * Lifts a layout of the subnetwork onto the network.
+   *
+   * The nodes in the subnetwork keep their coordinates. If a layout of the
+   * network is provided, the nodes that are not in the subnetwork keep their
+   * coordinates in this layout. Otherwise these nodes are placed at the
+   * origin.
+   *
+   * @param layout        Layout of the subnetwork
+   * @param networkLayout Layout of the network
+   *
+   * @return Layout of the network
+   *
+   * @throws The number of nodes of a layout is incorrect.
+   */
+  public liftLayout (layout: Layout, networkLayout?: Layout): Layout {
+    if (layout.getNNodes() !== this.nodes.length) {
+      throw new Error('Number of nodes of layout must be equal to the number of nodes in the subnetwork.')
+    }
+    if (networkLayout !== undefined && networkLayout.getNNodes() !== this.nNodes) {
+      throw new Error('Number of nodes of network layout must be equal to the number of nodes in the network.')
+    }
+
+    const coordinates = [new Array<number>(this.nNodes).fill(0), new Array<number>(this.nNodes).fill(0)]
+    for (let i = 0; i < this.nNodes; i++) {
+      const j = this.subnetworkNodes[i]
+      for (let k = 0; k < 2; k++) {
+        if (j >= 0) {
+          coordinates[k][i] = layout.coordinates[k][j]
+        } else if (networkLayout !== undefined) {
+          coordinates[k][i] = networkLayout.coordinates[k][i]
+        }
+      }
+    }
+
+    return new Layout({ coordinates, useTypedArrays: layout.usesTypedArrays() } as LayoutConstructorParametersWithCoordinates)
+  }
+}
+
+/**
+ * Interface for a subnetwork together with the mapping between the nodes in
+ * the network and the nodes in the subnetwork.
+ */
+export interface SubnetworkWithMapping {
+  /**
+   * Subnetwork.
+   */
+  subnetwork: Network
+
+  /**
+   * Mapping between the nodes in the network and the nodes in the
+   * subnetwork.
+   */
+  mapping: SubnetworkMapping
+}
@@ -1,5 +1,16 @@
 import Random from 'java-random'
 
+/**
+ * Array of integers, stored either in a plain array or in an `Int32Array`.
+ */
+export type IntegerArray = number[] | Int32Array
+
+/**
+ * Array of floating point numbers, stored either in a plain array or in a
+ * `Float64Array`.
+ */
+export type DoubleArray = number[] | Float64Array
+
 /**
  * Calculates the sum of the values in an array.
  *
@@ -9,7 +20,7 @@ import Random from 'java-random'
  *
  * @returns Sum of values
  */
-export function calcSum (values: number[]): number {
+export function calcSum (values: ArrayLike<number>): number {
   let sum = 0
   for (let i = 0; i < values.length; i++) {
     sum += values[i]
@@ -30,7 +41,7 @@ export function calcSum (values: number[]): number {
  *
  * @return Sum of values
  */
-export function calcSumWithinRange (values: number[], beginIndex: number, endIndex: number): number {
+export function calcSumWithinRange (values: ArrayLike<number>, beginIndex: number, endIndex: number): number {
   let sum = 0
   for (let i = beginIndex; i < endIndex; i++) {
     sum += values[i]
@@ -45,7 +56,7 @@ export function calcSumWithinRange (values: number[], beginIndex: number, endInd
  *
  * @return Average value
  */
-export function calcAverage (values: number[]): number {
+export function calcAverage (values: ArrayLike<number>): number {
   return calcSum(values) / values.length
 }
 
@@ -56,8 +67,8 @@ export function calcAverage (values: number[]): number {
  *
  * @return Median value
  */
-export function calcMedian (values: number[]): number {
-  const sortedValues = values.slice()
+export function calcMedian (values: ArrayLike<number>): number {
+  const sortedValues = Array.from(values)
   sortedValues.sort((a, b) => a - b)
   let median: number
   if (sortedValues.length % 2 === 1) {
@@ -75,7 +86,7 @@ export function calcMedian (values: number[]): number {
  *
  * @return Minimum value
  */
-export function calcMinimum (values: number[]): number {
+export function calcMinimum (values: ArrayLike<number>): number {
   let minimum = values[0]
   for (let i = 1; i < values.length; i++) {
     minimum = Math.min(minimum, values[i])
@@ -90,7 +101,7 @@ export function calcMinimum (values: number[]): number {
  *
  * @return Maximum value
  */
-export function calcMaximum (values: number[]): number {
+export function calcMaximum (values: ArrayLike<number>): number {
   let maximum = values[0]
   for (let i = 1; i < values.length; i++) {
     maximum = Math.max(maximum, values[i])
@@ -98,6 +109,77 @@ export function calcMaximum (values: number[]): number {
   return maximum
 }
 
+/**
+ * Creates an array of integers filled with zeros.
+ *
+ * @param nElements      Number of elements
+ * @param useTypedArrays Indicates whether to create an `Int32Array`
+ *
+ * @return Array of zeros
+ */
+export function createIntegerArray (nElements: number, useTypedArrays = false): IntegerArray {
+  return useTypedArrays ? new Int32Array(nElements) : new Array<number>(nElements).fill(0)
+}
+
+/**
+ * Creates an array of floating point numbers filled with zeros.
+ *
+ * @param nElements      Number of elements
+ * @param useTypedArrays Indicates whether to create a `Float64Array`
+ *
+ * @return Array of zeros
+ */
+export function createDoubleArray (nElements: number, useTypedArrays = false): DoubleArray {
+  return useTypedArrays ? new Float64Array(nElements) : new Array<number>(nElements).fill(0)
+}
+
+/**
+ * Converts an array of integers to a plain array or an `Int32Array`.
+ *
+ * The array itself is returned if it already has the requested type.
+ *
+ * @param values         Values
+ * @param useTypedArrays Indicates whether to convert to an `Int32Array`
+ *
+ * @return Converted array
+ */
+export function convertIntegerArray (values: IntegerArray, useTypedArrays: boolean): IntegerArray {
+  if (useTypedArrays) return values instanceof Int32Array ? values : Int32Array.from(values)
+  return Array.isArray(values) ? values : Array.from(values)
+}
+
+/**
+ * Converts an array of floating point numbers to a plain array or a
+ * `Float64Array`.
+ *
+ * The array itself is returned if it already has the requested type.
+ *
+ * @param values         Values
+ * @param useTypedArrays Indicates whether to convert to a `Float64Array`
+ *
+ * @return Converted array
+ */
+export function convertDoubleArray (values: DoubleArray, useTypedArrays: boolean): DoubleArray {
+  if (useTypedArrays) return values instanceof Float64Array ? values : Float64Array.from(values)
+  return Array.isArray(values) ? values : Array.from(values)
+}
+
+/**
+ * Copies the values in an array to a plain array, considering only array
+ * elements within a specified range.
+ *
+ * If no range is specified, all values are copied.
+ *
+ * @param values     Values
+ * @param beginIndex Begin index
+ * @param endIndex   End index
+ *
+ * @return Plain array of values
+ */
+export function copyToArray (values: IntegerArray | DoubleArray, beginIndex?: number, endIndex?: number): number[] {
+  return Array.isArray(values) ? values.slice(beginIndex, endIndex) : Array.from(values.subarray(beginIndex, endIndex))
+}
+
 /**
  * Creates a double array of random numbers.
  *
@@ -154,7 +236,7 @@ export function generateRandomPermutation (nElements: number, random: Random = n
  *     where n is the index of the first value higher than key or length if
  *     there is no such value.
  */
-export function binarySearch (sortedValues: number[], fromIndex: number, toIndex: number, key: number): number {
+export function binarySearch (sortedValues: ArrayLike<number>, fromIndex: number, toIndex: number, key: number): number {
   let low = fromIndex
   let high = toIndex - 1
   while (low <= high) {
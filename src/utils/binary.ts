@@ -0,0 +1,121 @@
+import { IntegerArray, DoubleArray } from './arrays'
+
+/**
+ * Version of the binary representation of networks, clusterings, and layouts.
+ */
+export const BINARY_VERSION = 1
+
+/**
+ * Length in bytes of the header of a binary representation.
+ *
+ * The header consists of a four-character identifier, the version, and two
+ * 32-bit unsigned integers and one 64-bit floating point number whose meaning
+ * depends on the represented object.
+ */
+export const BINARY_HEADER_LENGTH = 24
+
+/**
+ * Creates a binary representation with a header.
+ *
+ * The values in the header are written in little-endian byte order. The
+ * sections following the header are to be filled using typed arrays, which
+ * use the byte order of the platform.
+ *
+ * @param identifier   Four-character identifier of the represented object
+ * @param length       Total length in bytes
+ * @param headerValue1 First 32-bit unsigned integer in the header
+ * @param headerValue2 Second 32-bit unsigned integer in the header
+ * @param headerValue3 64-bit floating point number in the header
+ *
+ * @return Binary representation
+ */
+export function createBinary (identifier: string, length: number, headerValue1: number, headerValue2: number, headerValue3 = 0): ArrayBuffer {
+  const buffer = new ArrayBuffer(length)
+  const view = new DataView(buffer)
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(i, identifier.charCodeAt(i))
+  }
+  view.setUint32(4, BINARY_VERSION, true)
+  view.setUint32(8, headerValue1, true)
+  view.setUint32(12, headerValue2, true)
+  view.setFloat64(16, headerValue3, true)
+  return buffer
+}
+
+/**
+ * Reads the header of a binary representation.
+ *
+ * A binary representation provided as view is copied to a new buffer, so
+ * that typed arrays can be created for its sections regardless of the offset
+ * of the view.
+ *
+ * @param binary     Binary representation, either as buffer or as view
+ * @param identifier Four-character identifier of the represented object
+ * @param name       Name of the represented object
+ *
+ * @return Buffer and the three numbers in the header
+ *
+ * @throws The header is not a valid header for the represented object.
+ */
+export function readBinaryHeader (binary: ArrayBuffer | ArrayBufferView, identifier: string, name: string): { buffer: ArrayBuffer, headerValues: number[] } {
+  const buffer = ArrayBuffer.isView(binary) ? binary.buffer.slice(binary.byteOffset, binary.byteOffset + binary.byteLength) : binary
+  if (buffer.byteLength < BINARY_HEADER_LENGTH) {
+    throw new Error(`Binary representation of ${name} must have a header of ${BINARY_HEADER_LENGTH} bytes.`)
+  }
+  const view = new DataView(buffer)
+  for (let i = 0; i < 4; i++) {
+    if (view.getUint8(i) !== identifier.charCodeAt(i)) {
+      throw new Error(`Binary representation of ${name} must start with identifier ${identifier}.`)
+    }
+  }
+  if (view.getUint32(4, true) !== BINARY_VERSION) {
+    throw new Error(`Version of binary representation of ${name} must be equal to ${BINARY_VERSION}.`)
+  }
+  return { buffer, headerValues: [view.getUint32(8, true), view.getUint32(12, true), view.getFloat64(16, true)] }
+}
+
+/**
+ * Checks whether a binary representation has the expected length.
+ *
+ * @param buffer Binary representation
+ * @param length Expected length in bytes
+ * @param name   Name of the represented object
+ *
+ * @throws The binary representation does not have the expected length.
+ */
+export function checkBinaryLength (buffer: ArrayBuffer, length: number, name: string): void {
+  if (buffer.byteLength !== length) {
+    throw new Error(`Length of binary representation of ${name} must be equal to ${length} bytes.`)
+  }
+}
+
+/**
+ * Reads a section of 64-bit floating point numbers from a binary
+ * representation.
+ *
+ * @param buffer         Binary representation
+ * @param offset         Offset of the section in bytes
+ * @param length         Number of elements
+ * @param useTypedArrays Indicates whether to return a `Float64Array`
+ *
+ * @return Copy of the section
+ */
+export function readDoubleArray (buffer: ArrayBuffer, offset: number, length: number, useTypedArrays: boolean): DoubleArray {
+  const array = new Float64Array(buffer, offset, length)
+  return useTypedArrays ? array.slice() : Array.from(array)
+}
+
+/**
+ * Reads a section of 32-bit integers from a binary representation.
+ *
+ * @param buffer         Binary representation
+ * @param offset         Offset of the section in bytes
+ * @param length         Number of elements
+ * @param useTypedArrays Indicates whether to return an `Int32Array`
+ *
+ * @return Copy of the section
+ */
+export function readIntegerArray (buffer: ArrayBuffer, offset: number, length: number, useTypedArrays: boolean): IntegerArray {
+  const array = new Int32Array(buffer, offset, length)
+  return useTypedArrays ? array.slice() : Array.from(array)
+}
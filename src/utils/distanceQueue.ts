@@ -0,0 +1,112 @@
+/**
+ * Priority queue of nodes ordered by increasing distance, for use in
+ * Dijkstra's algorithm.
+ *
+ * The queue is a binary heap. A node may be pushed multiple times, each time
+ * with a smaller distance. The node is popped only once, at its smallest
+ * distance, after which its remaining entries are skipped.
+ */
+export default class DistanceQueue {
+  /**
+   * Node of each entry in the heap.
+   */
+  protected nodes: number[] = []
+
+  /**
+   * Distance of each entry in the heap.
+   */
+  protected distances: number[] = []
+
+  /**
+   * Indicates for each node whether it has been popped.
+   */
+  protected popped: boolean[]
+
+  /**
+   * Constructs an empty distance queue.
+   *
+   * @param nNodes Number of nodes
+   */
+  public constructor (nNodes: number) {
+    this.popped = new Array<boolean>(nNodes).fill(false)
+  }
+
+  /**
+   * Empties the queue and marks all nodes as not popped.
+   */
+  public reset (): void {
+    this.nodes.length = 0
+    this.distances.length = 0
+    this.popped.fill(false)
+  }
+
+  /**
+   * Indicates whether the queue contains no nodes that have not been popped.
+   *
+   * @return Boolean indicating whether the queue is empty
+   */
+  public isEmpty (): boolean {
+    this.skipPoppedNodes()
+    return this.nodes.length === 0
+  }
+
+  /**
+   * Pushes a node with a distance.
+   *
+   * @param node     Node
+   * @param distance Distance
+   */
+  public push (node: number, distance: number): void {
+    let i = this.nodes.length
+    this.nodes.push(node)
+    this.distances.push(distance)
+    while (i > 0) {
+      const j = (i - 1) >> 1
+      if (this.distances[j] <= distance) break
+      this.nodes[i] = this.nodes[j]
+      this.distances[i] = this.distances[j]
+      i = j
+    }
+    this.nodes[i] = node
+    this.distances[i] = distance
+  }
+
+  /**
+   * Pops the node with the smallest distance. The queue must not be empty.
+   *
+   * @return Node
+   */
+  public pop (): number {
+    this.skipPoppedNodes()
+    const node = this.removeFirst()
+    this.popped[node] = true
+    return node
+  }
+
+  private skipPoppedNodes (): void {
+    while (this.nodes.length > 0 && this.popped[this.nodes[0]]) {
+      this.removeFirst()
+    }
+  }
+
+  private removeFirst (): number {
+    const node = this.nodes[0]
+    const lastNode = this.nodes.pop() as number
+    const lastDistance = this.distances.pop() as number
+    const n = this.nodes.length
+    if (n > 0) {
+      let i = 0
+      while (2 * i + 1 < n) {
+        let j = 2 * i + 1
+        if (j + 1 < n && this.distances[j + 1] < this.distances[j]) j++
+        if (this.distances[j] >= lastDistance) break
+        this.nodes[i] = this.nodes[j]
+        this.distances[i] = this.distances[j]
+        i = j
+      }
+      this.nodes[i] = lastNode
+      this.distances[i] = lastDistance
+    }
+    return node
+  }
+}
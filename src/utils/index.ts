@@ -5,20 +5,28 @@
  */
 import Random from 'java-random'
 import {
-  calcSum, calcSumWithinRange, calcAverage, calcMedian, calcMinimum,
-  calcMaximum, createDoubleArrayOfRandomNumbers, generateRandomPermutation,
-  binarySearch,
+  IntegerArray, DoubleArray, calcSum, calcSumWithinRange, calcAverage,
+  calcMedian, calcMinimum, calcMaximum, createIntegerArray, createDoubleArray,
+  convertIntegerArray, convertDoubleArray, copyToArray,
+  createDoubleArrayOfRandomNumbers, generateRandomPermutation, binarySearch,
 } from './arrays'
 import { fastExp, fastPow } from './fastMath'
 
 export {
   Random,
+  IntegerArray,
+  DoubleArray,
   calcSum,
   calcSumWithinRange,
   calcAverage,
   calcMedian,
   calcMinimum,
   calcMaximum,
+  createIntegerArray,
+  createDoubleArray,
+  convertIntegerArray,
+  convertDoubleArray,
+  copyToArray,
   createDoubleArrayOfRandomNumbers,
   generateRandomPermutation,
   binarySearch,
@@ -0,0 +1,69 @@
+/**
+ * Version of the JSON representation of networks, clusterings, and layouts.
+ */
+export const JSON_VERSION = 1
+
+/**
+ * Parses a JSON representation if it is provided as a string.
+ *
+ * @param json JSON representation as string or object
+ *
+ * @return JSON representation as object
+ */
+export function parseJSON<T> (json: T | string): T {
+  return typeof json === 'string' ? JSON.parse(json) as T : json
+}
+
+/**
+ * Checks whether a JSON representation has a supported version.
+ *
+ * @param version Version of the JSON representation
+ * @param name    Name of the represented object
+ *
+ * @throws The version is not supported.
+ */
+export function checkJSONVersion (version: unknown, name: string): void {
+  if (version !== JSON_VERSION) {
+    throw new Error(`Version of ${name} JSON must be equal to ${JSON_VERSION}.`)
+  }
+}
+
+/**
+ * Checks whether a value in a JSON representation is a finite number.
+ *
+ * @param value   Value
+ * @param name    Name of the value
+ * @param integer Indicates whether the value must be a non-negative integer
+ *
+ * @throws The value is not a finite number or not a non-negative integer.
+ */
+export function checkJSONNumber (value: unknown, name: string, integer = false): asserts value is number {
+  if (integer ? !isNonNegativeInteger(value) : !isFiniteNumber(value)) {
+    throw new Error(`${name} must be ${integer ? 'a non-negative integer' : 'a finite number'}.`)
+  }
+}
+
+/**
+ * Checks whether a value in a JSON representation is an array of finite
+ * numbers.
+ *
+ * @param values  Value
+ * @param name    Name of the value
+ * @param integer Indicates whether the elements must be non-negative integers
+ *
+ * @throws The value is not an array of finite numbers or not an array of
+ * non-negative integers.
+ */
+export function checkJSONNumberArray (values: unknown, name: string, integer = false): asserts values is number[] {
+  if (!Array.isArray(values) || !values.every(integer ? isNonNegativeInteger : isFiniteNumber)) {
+    throw new Error(`${name} must be an array of ${integer ? 'non-negative integers' : 'finite numbers'}.`)
+  }
+}
+
+function isFiniteNumber (value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isNonNegativeInteger (value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
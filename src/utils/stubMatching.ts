@@ -0,0 +1,51 @@
+import Random from 'java-random'
+
+/**
+ * Number of rounds in which rejected stubs are matched again.
+ */
+const N_STUB_MATCHING_ROUNDS = 100
+
+/**
+ * Matches stubs randomly to create edges, as in the configuration model.
+ *
+ * The stubs are shuffled and consecutive stubs are paired. Pairs of stubs
+ * that would result in a self link, a duplicate edge, or an edge that is not
+ * allowed are matched again in a limited number of rounds, after which the
+ * remaining stubs are dropped. Each edge is added with the lower node first.
+ *
+ * @param stubs      Node of each stub (shuffled in place)
+ * @param nNodes     Number of nodes
+ * @param canConnect Function indicating whether two nodes may be connected
+ * @param edges      Edges to which the matched edges are added
+ * @param edgeKeys   Keys `node1 * nNodes + node2` of existing edges, to which
+ *                   the keys of the matched edges are added
+ * @param random     Random number generator
+ */
+export function matchStubs (stubs: number[], nNodes: number, canConnect: (node1: number, node2: number) => boolean, edges: number[][], edgeKeys: Set<number>, random: Random): void {
+  let remainingStubs = stubs
+  for (let i = 0; i < N_STUB_MATCHING_ROUNDS && remainingStubs.length > 1; i++) {
+    for (let j = remainingStubs.length - 1; j > 0; j--) {
+      const k = random.nextInt(j + 1)
+      const l = remainingStubs[j]
+      remainingStubs[j] = remainingStubs[k]
+      remainingStubs[k] = l
+    }
+    const rejectedStubs = new Array<number>(0)
+    for (let j = 0; j + 1 < remainingStubs.length; j += 2) {
+      const node1 = Math.min(remainingStubs[j], remainingStubs[j + 1])
+      const node2 = Math.max(remainingStubs[j], remainingStubs[j + 1])
+      const key = node1 * nNodes + node2
+      if (node1 !== node2 && canConnect(node1, node2) && !edgeKeys.has(key)) {
+        edgeKeys.add(key)
+        edges[0].push(node1)
+        edges[1].push(node2)
+      } else {
+        rejectedStubs.push(node1, node2)
+      }
+    }
+    if (remainingStubs.length % 2 === 1) {
+      rejectedStubs.push(remainingStubs[remainingStubs.length - 1])
+    }
+    remainingStubs = rejectedStubs
+  }
+}